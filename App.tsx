@@ -4,63 +4,53 @@ import { CreateGame } from './components/CreateGame';
 import { GamePlay } from './components/GamePlay';
 import { HostGame } from './components/HostGame';
 import { StudentJoin } from './components/StudentJoin';
+import { GameLibrary } from './components/GameLibrary';
+import { GameEditor } from './components/GameEditor';
 import { GameData, ViewState } from './types';
+import { SessionClient } from './services/session';
+import { GameSummary } from './services/session-protocol';
+import { gameLibrary, SavedGame } from './services/game-library';
 
-// Mock game data for students joining via code
-const MOCK_JOIN_GAME: GameData = {
-  code: "TEST01",
-  isEngine: true,
-  title: "The Industrial Revolution",
-  description: "Explore the technological and social changes of the 18th and 19th centuries.",
-  theme: "history",
-  questions: [
-    {
-      id: "q1",
-      text: "Which invention is often cited as the catalyst for the Industrial Revolution in the textile industry?",
-      options: ["The Steam Engine", "The Spinning Jenny", "The Printing Press", "The Cotton Gin"],
-      correctIndex: 1,
-      explanation: "The Spinning Jenny, invented by James Hargreaves in 1764, allowed a worker to spin multiple spools of yarn at once, dramatically increasing productivity.",
-      concept: "Technological Innovation",
-      misconception: "The Steam Engine, while crucial, came slightly later in widespread adoption for textiles."
-    },
-    {
-      id: "q2",
-      text: "What was a primary social consequence of urbanization during this period?",
-      options: ["Increased rural population", "Better living conditions for all", "Rise of the factory system and overcrowding", "Decrease in child labor"],
-      correctIndex: 2,
-      explanation: "People flocked to cities for factory jobs, leading to rapid, unplanned urbanization, overcrowding, and poor sanitary conditions.",
-      concept: "Social Impact",
-      misconception: "Many believe life immediately improved, but early industrial cities were often hazardous."
-    },
-    {
-      id: "q3",
-      text: "Which economic system gained prominence as a result of industrialization?",
-      options: ["Feudalism", "Capitalism", "Mercantilism", "Agrarianism"],
-      correctIndex: 1,
-      explanation: "Industrialization required significant capital investment in machinery and factories, fueling the growth of industrial capitalism.",
-      concept: "Economic Systems"
-    }
-  ]
-};
+interface PlaySession {
+  session: SessionClient;
+  game: GameSummary;
+  playerId: string;
+}
 
 const App: React.FC = () => {
   const [view, setView] = useState<ViewState>('landing');
   const [gameData, setGameData] = useState<GameData | null>(null);
+  const [savedGameId, setSavedGameId] = useState<string | null>(null);
+  const [playSession, setPlaySession] = useState<PlaySession | null>(null);
 
-  const handleGameGenerated = (data: GameData) => {
+  // Generated games arrive already saved, so they survive reloads and can be hosted again
+  const handleGameGenerated = (data: GameData, savedId: string | null) => {
+    setGameData(data);
+    setSavedGameId(savedId);
+    setView('edit');
+  };
+
+  const handleSaveEdits = async (data: GameData) => {
+    setGameData(data);
+    const saved = savedGameId
+      ? await gameLibrary.update(savedGameId, data)
+      : await gameLibrary.save(data);
+    setSavedGameId(saved.id);
+  };
+
+  const handleHost = (data: GameData) => {
     setGameData(data);
     setView('host');
   };
 
-  const handleStudentJoin = (code: string, name: string) => {
-    // In a real app, we would fetch the game data based on the code here.
-    // For this demo, we use a mock game if one wasn't just created.
-    if (!gameData) {
-        setGameData({
-            ...MOCK_JOIN_GAME,
-            code: code // Use the code they entered
-        });
-    }
+  const handleOpenSaved = (saved: SavedGame, nextView: 'edit' | 'host') => {
+    setGameData(saved.game);
+    setSavedGameId(saved.id);
+    setView(nextView);
+  };
+
+  const handleStudentJoin = (session: SessionClient, game: GameSummary, playerId: string) => {
+    setPlaySession({ session, game, playerId });
     setView('play');
   };
 
@@ -70,6 +60,16 @@ const App: React.FC = () => {
         <LandingPage 
             onStartCreate={() => setView('create')} 
             onJoinGame={() => setView('join')}
+            onOpenLibrary={() => setView('library')}
+        />
+      )}
+
+      {view === 'library' && (
+        <GameLibrary
+          onHost={(saved) => handleOpenSaved(saved, 'host')}
+          onEdit={(saved) => handleOpenSaved(saved, 'edit')}
+          onCreate={() => setView('create')}
+          onBack={() => setView('landing')}
         />
       )}
       
@@ -80,6 +80,15 @@ const App: React.FC = () => {
         />
       )}
       
+      {view === 'edit' && gameData && (
+        <GameEditor
+          gameData={gameData}
+          onSave={handleSaveEdits}
+          onHost={handleHost}
+          onBack={() => setView(savedGameId ? 'library' : 'create')}
+        />
+      )}
+
       {view === 'host' && gameData && (
         <HostGame 
           gameData={gameData} 
@@ -94,10 +103,15 @@ const App: React.FC = () => {
         />
       )}
       
-      {view === 'play' && gameData && (
+      {view === 'play' && playSession && (
         <GamePlay 
-          gameData={gameData} 
-          onExit={() => setView('landing')} 
+          session={playSession.session}
+          game={playSession.game}
+          playerId={playSession.playerId}
+          onExit={() => {
+            setPlaySession(null);
+            setView('landing');
+          }} 
         />
       )}
     </>
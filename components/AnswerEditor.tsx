@@ -0,0 +1,294 @@
+import React from "react";
+import { Button } from "./ui/button";
+import { ArrowUp, ArrowDown, Check, Plus, X } from "lucide-react";
+import { MatchingPair, MediaAsset, Question } from "../types";
+import { MAX_ITEMS, MAX_OPTIONS, MIN_ITEMS, MIN_OPTIONS } from "../utils/game-validation";
+import { ImagePicker } from "./ImagePicker";
+
+interface AnswerEditorProps {
+  question: Question;
+  onChange: (question: Question) => void;
+  media: MediaAsset[];
+  onUploadImage: (file: File) => Promise<string>;
+}
+
+const inputClass = "w-full px-3 py-2 rounded-lg border-2 border-paper-200 focus:border-paper-900 focus:ring-0 transition-all text-sm bg-white";
+const labelClass = "block text-xs font-bold uppercase tracking-wider text-paper-500 mb-1";
+const addClass = "mt-2 text-xs font-medium text-paper-500 hover:text-paper-900 flex items-center gap-1";
+
+const replaceAt = <T,>(values: T[], index: number, value: T) => values.map((v, i) => i === index ? value : v);
+
+const markerClass = (active: boolean) => `w-8 h-8 rounded-lg flex items-center justify-center text-sm font-bold flex-shrink-0 transition-colors ${
+  active ? "bg-highlight-green text-paper-900 border-2 border-paper-900" : "bg-paper-100 text-paper-600 hover:bg-paper-200"
+}`;
+
+// Kind-specific answer fields for the question editor.
+export const AnswerEditor: React.FC<AnswerEditorProps> = ({ question, onChange, media, onUploadImage }) => {
+  switch (question.kind) {
+    case 'multiple_choice':
+    case 'true_false':
+    case 'multi_select': {
+      const fixedOptions = question.kind === 'true_false';
+      const isCorrect = (i: number) => question.kind === 'multi_select' ? question.correctIndices.includes(i) : question.correctIndex === i;
+
+      const markCorrect = (i: number) => {
+        if (question.kind === 'multi_select') {
+          const correctIndices = isCorrect(i) ? question.correctIndices.filter(c => c !== i) : [...question.correctIndices, i];
+          onChange({ ...question, correctIndices });
+        } else {
+          onChange({ ...question, correctIndex: i });
+        }
+      };
+
+      const optionImages = question.kind === 'true_false' ? undefined : question.optionImages;
+
+      const setOptionImage = (optionIndex: number, id: string | undefined) => {
+        if (question.kind === 'true_false') return;
+        const images = question.options.map((_, i) => i === optionIndex ? id || null : optionImages?.[i] || null);
+        onChange({ ...question, optionImages: images.some(Boolean) ? images : undefined });
+      };
+
+      const removeOption = (optionIndex: number) => {
+        const options = question.options.filter((_, i) => i !== optionIndex);
+        const shift = (i: number) => i > optionIndex ? i - 1 : i;
+        if (question.kind === 'multi_select') {
+          onChange({
+            ...question,
+            options,
+            optionImages: optionImages?.filter((_, i) => i !== optionIndex),
+            correctIndices: question.correctIndices.filter(i => i !== optionIndex).map(shift)
+          });
+        } else if (question.kind === 'multiple_choice') {
+          onChange({
+            ...question,
+            options,
+            optionImages: optionImages?.filter((_, i) => i !== optionIndex),
+            correctIndex: question.correctIndex === optionIndex ? 0 : shift(question.correctIndex)
+          });
+        }
+      };
+
+      return (
+        <div>
+          <label className={labelClass}>
+            Options <span className="normal-case font-normal">
+              ({question.kind === 'multi_select' ? "select every correct answer" : "select the correct answer"})
+            </span>
+          </label>
+          <div className="space-y-2">
+            {question.options.map((option, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <button type="button" onClick={() => markCorrect(i)} title="Mark as correct" className={markerClass(isCorrect(i))}>
+                  {isCorrect(i) ? <Check className="w-4 h-4" /> : String.fromCharCode(65 + i)}
+                </button>
+                <input
+                  type="text"
+                  value={option}
+                  onChange={(e) => onChange({ ...question, options: replaceAt(question.options, i, e.target.value) })}
+                  className={inputClass}
+                  placeholder={optionImages?.[i] ? "Optional caption" : `Option ${String.fromCharCode(65 + i)}`}
+                  disabled={fixedOptions}
+                />
+                {!fixedOptions && (
+                  <ImagePicker
+                    value={optionImages?.[i]}
+                    media={media}
+                    onChange={(id) => setOptionImage(i, id)}
+                    onUpload={onUploadImage}
+                    size="sm"
+                  />
+                )}
+                {!fixedOptions && (
+                  <Button
+                    onClick={() => removeOption(i)}
+                    disabled={question.options.length <= MIN_OPTIONS}
+                    size="sm"
+                    variant="ghost"
+                    title="Remove option"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+          {!fixedOptions && question.options.length < MAX_OPTIONS && (
+            <button type="button" onClick={() => onChange({ ...question, options: [...question.options, ""] })} className={addClass}>
+              <Plus className="w-3 h-3" /> Add option
+            </button>
+          )}
+        </div>
+      );
+    }
+
+    case 'ordering': {
+      const move = (index: number, direction: -1 | 1) => {
+        const target = index + direction;
+        if (target < 0 || target >= question.items.length) return;
+        const items = [...question.items];
+        [items[index], items[target]] = [items[target], items[index]];
+        onChange({ ...question, items });
+      };
+
+      return (
+        <div>
+          <label className={labelClass}>
+            Items <span className="normal-case font-normal">(in the correct order; players see them shuffled)</span>
+          </label>
+          <div className="space-y-2">
+            {question.items.map((item, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <span className={markerClass(false)}>{i + 1}</span>
+                <input
+                  type="text"
+                  value={item}
+                  onChange={(e) => onChange({ ...question, items: replaceAt(question.items, i, e.target.value) })}
+                  className={inputClass}
+                  placeholder={`Step ${i + 1}`}
+                />
+                <Button onClick={() => move(i, -1)} disabled={i === 0} size="sm" variant="ghost" title="Move up">
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button onClick={() => move(i, 1)} disabled={i === question.items.length - 1} size="sm" variant="ghost" title="Move down">
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button
+                  onClick={() => onChange({ ...question, items: question.items.filter((_, j) => j !== i) })}
+                  disabled={question.items.length <= MIN_ITEMS}
+                  size="sm"
+                  variant="ghost"
+                  title="Remove item"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+          {question.items.length < MAX_ITEMS && (
+            <button type="button" onClick={() => onChange({ ...question, items: [...question.items, ""] })} className={addClass}>
+              <Plus className="w-3 h-3" /> Add item
+            </button>
+          )}
+        </div>
+      );
+    }
+
+    case 'numeric':
+      return (
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label className={labelClass}>Correct answer</label>
+            <input
+              type="number"
+              value={Number.isFinite(question.answer) ? question.answer : ""}
+              onChange={(e) => onChange({ ...question, answer: e.target.valueAsNumber })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Tolerance (±)</label>
+            <input
+              type="number"
+              min={0}
+              value={Number.isFinite(question.tolerance) ? question.tolerance : ""}
+              onChange={(e) => onChange({ ...question, tolerance: e.target.valueAsNumber })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Unit</label>
+            <input
+              type="text"
+              value={question.unit || ""}
+              onChange={(e) => onChange({ ...question, unit: e.target.value })}
+              className={inputClass}
+              placeholder="e.g. km"
+            />
+          </div>
+        </div>
+      );
+
+    case 'short_text':
+      return (
+        <div>
+          <label className={labelClass}>
+            Accepted answers <span className="normal-case font-normal">(case and punctuation are ignored)</span>
+          </label>
+          <div className="space-y-2">
+            {question.acceptedAnswers.map((accepted, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={accepted}
+                  onChange={(e) => onChange({ ...question, acceptedAnswers: replaceAt(question.acceptedAnswers, i, e.target.value) })}
+                  className={inputClass}
+                  placeholder="An answer you accept"
+                />
+                <Button
+                  onClick={() => onChange({ ...question, acceptedAnswers: question.acceptedAnswers.filter((_, j) => j !== i) })}
+                  disabled={question.acceptedAnswers.length <= 1}
+                  size="sm"
+                  variant="ghost"
+                  title="Remove answer"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+          <button type="button" onClick={() => onChange({ ...question, acceptedAnswers: [...question.acceptedAnswers, ""] })} className={addClass}>
+            <Plus className="w-3 h-3" /> Add accepted answer
+          </button>
+        </div>
+      );
+
+    case 'matching': {
+      const updatePair = (index: number, patch: Partial<MatchingPair>) => {
+        onChange({ ...question, pairs: replaceAt(question.pairs, index, { ...question.pairs[index], ...patch }) });
+      };
+
+      return (
+        <div>
+          <label className={labelClass}>
+            Pairs <span className="normal-case font-normal">(players see the right-hand side shuffled)</span>
+          </label>
+          <div className="space-y-2">
+            {question.pairs.map((pair, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={pair.left}
+                  onChange={(e) => updatePair(i, { left: e.target.value })}
+                  className={inputClass}
+                  placeholder="Term"
+                />
+                <span className="text-paper-400">→</span>
+                <input
+                  type="text"
+                  value={pair.right}
+                  onChange={(e) => updatePair(i, { right: e.target.value })}
+                  className={inputClass}
+                  placeholder="Match"
+                />
+                <Button
+                  onClick={() => onChange({ ...question, pairs: question.pairs.filter((_, j) => j !== i) })}
+                  disabled={question.pairs.length <= MIN_ITEMS}
+                  size="sm"
+                  variant="ghost"
+                  title="Remove pair"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+          {question.pairs.length < MAX_ITEMS && (
+            <button type="button" onClick={() => onChange({ ...question, pairs: [...question.pairs, { left: "", right: "" }] })} className={addClass}>
+              <Plus className="w-3 h-3" /> Add pair
+            </button>
+          )}
+        </div>
+      );
+    }
+  }
+};
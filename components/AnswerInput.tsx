@@ -0,0 +1,262 @@
+import React, { useState } from 'react';
+import { PublicImage, PublicQuestion } from '../services/session-protocol';
+import { QuestionAnswer } from '../types';
+import { Button } from './ui/button';
+import { MediaImage } from './ui/media-image';
+import { RichText } from './ui/rich-text';
+import { ArrowUp, ArrowDown, Check, Send } from 'lucide-react';
+
+interface AnswerInputProps {
+  question: PublicQuestion;
+  submitted: boolean;
+  onSubmit: (answer: QuestionAnswer) => void;
+}
+
+const optionClass = (submitted: boolean, selected: boolean) => `
+  w-full p-6 rounded-xl border-2 text-left transition-all relative overflow-hidden group
+  ${submitted
+    ? selected
+      ? "bg-paper-100 border-paper-400"
+      : "opacity-40 border-paper-200 grayscale"
+    : selected
+      ? "bg-highlight-purple/10 border-highlight-purple"
+      : "bg-white border-paper-200 hover:border-highlight-purple hover:shadow-paper-md active:scale-[0.98]"
+  }
+`;
+
+const badgeClass = (submitted: boolean, selected: boolean) => `
+  w-8 h-8 rounded-lg flex items-center justify-center text-sm font-bold mr-3 transition-colors flex-shrink-0
+  ${selected ? "bg-paper-800 text-white" : "bg-paper-100 text-paper-600"}
+  ${submitted ? "" : "group-hover:bg-highlight-purple group-hover:text-white"}
+`;
+
+// Option text, with the option's image above it when it has one
+const OptionContent: React.FC<{ text: string; image?: PublicImage | null }> = ({ text, image }) => (
+  <span className="flex flex-col gap-2 min-w-0">
+    {image && <MediaImage src={image.src} alt={image.alt} className="max-h-40 w-auto" />}
+    {text && <RichText text={text} className="font-medium text-paper-900 text-lg" />}
+  </span>
+);
+
+const inputClass = "w-full h-14 px-4 rounded-xl border-2 border-paper-200 focus:border-highlight-purple focus:ring-0 text-lg bg-white disabled:opacity-60";
+
+const SubmitButton: React.FC<{ disabled: boolean; submitted: boolean; onClick: () => void }> = ({ disabled, submitted, onClick }) => (
+  <Button onClick={onClick} disabled={disabled || submitted} variant="purple" size="lg" className="w-full mt-4">
+    {submitted ? <Check className="w-4 h-4 mr-2" /> : <Send className="w-4 h-4 mr-2" />}
+    {submitted ? "Answer sent" : "Submit Answer"}
+  </Button>
+);
+
+// Renders the answer controls for every question kind. Choice questions submit
+// on the first tap; the others collect a draft and submit with a button.
+export const AnswerInput: React.FC<AnswerInputProps> = ({ question, submitted, onSubmit }) => {
+  const [selected, setSelected] = useState<number[]>([]);
+  const [order, setOrder] = useState<string[]>(question.kind === 'ordering' ? question.items : []);
+  const [text, setText] = useState("");
+  const [matches, setMatches] = useState<string[]>(question.kind === 'matching' ? question.left.map(() => "") : []);
+
+  switch (question.kind) {
+    case 'multiple_choice':
+    case 'true_false':
+      return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 animate-slide-up stagger-1">
+          {question.options.map((option, i) => (
+            <button
+              key={i}
+              disabled={submitted}
+              onClick={() => {
+                setSelected([i]);
+                onSubmit({ kind: question.kind, index: i });
+              }}
+              className={optionClass(submitted, selected.includes(i))}
+            >
+              <div className="flex items-center">
+                <div className={badgeClass(submitted, submitted && selected.includes(i))}>
+                  {String.fromCharCode(65 + i)}
+                </div>
+                <OptionContent text={option} image={question.optionImages?.[i]} />
+              </div>
+            </button>
+          ))}
+        </div>
+      );
+
+    case 'multi_select': {
+      const toggle = (i: number) => setSelected(s => s.includes(i) ? s.filter(x => x !== i) : [...s, i]);
+      return (
+        <div className="animate-slide-up stagger-1">
+          <p className="text-sm text-paper-500 mb-3">Select all that apply</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {question.options.map((option, i) => (
+              <button key={i} disabled={submitted} onClick={() => toggle(i)} className={optionClass(submitted, selected.includes(i))}>
+                <div className="flex items-center">
+                  <div className={badgeClass(submitted, selected.includes(i))}>
+                    {selected.includes(i) ? <Check className="w-4 h-4" /> : String.fromCharCode(65 + i)}
+                  </div>
+                  <OptionContent text={option} image={question.optionImages?.[i]} />
+                </div>
+              </button>
+            ))}
+          </div>
+          <SubmitButton
+            disabled={selected.length === 0}
+            submitted={submitted}
+            onClick={() => onSubmit({ kind: 'multi_select', indices: [...selected].sort((a, b) => a - b) })}
+          />
+        </div>
+      );
+    }
+
+    case 'ordering': {
+      const move = (index: number, direction: -1 | 1) => {
+        const target = index + direction;
+        if (target < 0 || target >= order.length) return;
+        const next = [...order];
+        [next[index], next[target]] = [next[target], next[index]];
+        setOrder(next);
+      };
+      return (
+        <div className="animate-slide-up stagger-1">
+          <p className="text-sm text-paper-500 mb-3">Put these in the right order, first at the top</p>
+          <div className="space-y-2">
+            {order.map((item, i) => (
+              <div key={item} className={`flex items-center p-4 rounded-xl border-2 bg-white ${submitted ? "border-paper-200 opacity-70" : "border-paper-200"}`}>
+                <div className={badgeClass(submitted, false)}>{i + 1}</div>
+                <RichText text={item} className="flex-1 font-medium text-paper-900 text-lg" />
+                <Button onClick={() => move(i, -1)} disabled={submitted || i === 0} size="sm" variant="ghost" aria-label="Move up">
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button onClick={() => move(i, 1)} disabled={submitted || i === order.length - 1} size="sm" variant="ghost" aria-label="Move down">
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+          <SubmitButton disabled={false} submitted={submitted} onClick={() => onSubmit({ kind: 'ordering', order })} />
+        </div>
+      );
+    }
+
+    case 'numeric': {
+      const value = parseFloat(text.replace(',', '.'));
+      return (
+        <div className="animate-slide-up stagger-1">
+          <div className="flex items-center gap-3">
+            <input
+              type="text"
+              inputMode="decimal"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              disabled={submitted}
+              placeholder="Your answer"
+              className={inputClass}
+            />
+            {question.unit && <span className="text-lg font-medium text-paper-600">{question.unit}</span>}
+          </div>
+          <SubmitButton
+            disabled={!Number.isFinite(value)}
+            submitted={submitted}
+            onClick={() => onSubmit({ kind: 'numeric', value })}
+          />
+        </div>
+      );
+    }
+
+    case 'short_text':
+      return (
+        <div className="animate-slide-up stagger-1">
+          <input
+            type="text"
+            value={text}
+            maxLength={200}
+            onChange={(e) => setText(e.target.value)}
+            disabled={submitted}
+            placeholder="Type your answer"
+            className={inputClass}
+          />
+          <SubmitButton
+            disabled={!text.trim()}
+            submitted={submitted}
+            onClick={() => onSubmit({ kind: 'short_text', text: text.trim() })}
+          />
+        </div>
+      );
+
+    case 'matching':
+      return (
+        <div className="animate-slide-up stagger-1">
+          <p className="text-sm text-paper-500 mb-3">Match each item on the left with one on the right</p>
+          <div className="space-y-2">
+            {question.left.map((left, i) => (
+              <div key={i} className="flex flex-col sm:flex-row sm:items-center gap-2 p-4 rounded-xl border-2 border-paper-200 bg-white">
+                <RichText text={left} className="sm:w-1/2 font-medium text-paper-900" />
+                <select
+                  value={matches[i]}
+                  onChange={(e) => setMatches(m => m.map((value, j) => j === i ? e.target.value : value))}
+                  disabled={submitted}
+                  className="sm:w-1/2 h-11 px-3 rounded-lg border-2 border-paper-200 focus:border-highlight-purple focus:ring-0 text-sm bg-white"
+                >
+                  <option value="">Choose...</option>
+                  {question.right.map(right => (
+                    <option key={right} value={right}>{right}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          <SubmitButton
+            disabled={matches.some(m => !m)}
+            submitted={submitted}
+            onClick={() => onSubmit({ kind: 'matching', matches })}
+          />
+        </div>
+      );
+  }
+};
+
+// Shows the revealed answer in the results card.
+export const CorrectAnswer: React.FC<{ question: PublicQuestion; answer: QuestionAnswer }> = ({ question, answer }) => {
+  const textClass = "text-lg font-bold text-paper-900";
+
+  switch (answer.kind) {
+    case 'multiple_choice':
+    case 'true_false':
+    case 'multi_select': {
+      if (!('options' in question)) return null;
+      const indices = answer.kind === 'multi_select' ? answer.indices : [answer.index];
+      const images = indices.map(i => question.optionImages?.[i]).filter((image): image is PublicImage => !!image);
+      return (
+        <div className="flex flex-col items-center gap-2">
+          {images.length > 0 && (
+            <div className="flex flex-wrap justify-center gap-2">
+              {images.map((image, i) => <MediaImage key={i} src={image.src} alt={image.alt} className="max-h-32 w-auto" />)}
+            </div>
+          )}
+          <div className={textClass}>
+            {indices.map(i => question.options[i]).filter(Boolean).map((option, i) => (
+              <React.Fragment key={i}>{i > 0 && ", "}<RichText text={option} /></React.Fragment>
+            ))}
+          </div>
+        </div>
+      );
+    }
+    case 'ordering':
+      return (
+        <ol className="text-left inline-block list-decimal list-inside space-y-1 font-semibold text-paper-900">
+          {answer.order.map(item => <li key={item}><RichText text={item} /></li>)}
+        </ol>
+      );
+    case 'numeric':
+      return <p className={textClass}>{answer.value}{question.kind === 'numeric' && question.unit ? ` ${question.unit}` : ""}</p>;
+    case 'short_text':
+      return <p className={textClass}>{answer.text}</p>;
+    case 'matching':
+      return (
+        <ul className="text-left inline-block space-y-1 text-sm text-paper-900">
+          {question.kind === 'matching' && question.left.map((left, i) => (
+            <li key={i}><RichText text={left} className="font-semibold" /> → <RichText text={answer.matches[i]} /></li>
+          ))}
+        </ul>
+      );
+  }
+};
@@ -1,4 +1,4 @@
-import React, { useState, useRef } from "react";
+import React, { useState, useRef, useMemo, useEffect } from "react";
 import { Button } from "./ui/button";
 import { Card } from "./ui/card";
 import { Badge } from "./ui/badge";
@@ -14,20 +14,37 @@ import {
   Loader2,
   X,
   File,
-  AlertCircle
+  AlertCircle,
+  ClipboardCheck,
+  History,
+  RefreshCw
 } from "lucide-react";
-import { generateGameFromContent, GenerateOptions } from "../services/gemini";
-import { parseFile } from "../utils/file-processing";
-import { GameData } from "../types";
+import { gameFromPreview, GenerateOptions, GenerationPreview } from "../services/gemini";
+import { CachedGeneration, generateGameWithCache, parseFileWithCache, saveCachedGame } from "../services/generation-cache";
+import { saveGeneratedGame } from "../services/game-library";
+import {
+  documentContent,
+  DocumentOutline,
+  inspectFile,
+  PAGE_SELECTION_THRESHOLD,
+  parsePageRanges,
+  SUPPORTED_EXTENSIONS
+} from "../utils/file-processing";
+import { GameData, GameMechanic, ObjectiveType, QuestionTypeMix, SourceMaterial } from "../types";
+import { bundleText, createSource, labelFromFileName, SOURCE_WEIGHTS } from "../utils/source-bundle";
+import { DEFAULT_TYPE_MIX, QUESTION_COUNT_LIMITS } from "../utils/question-mix";
+import { QUESTION_KINDS, questionKindLabel } from "../utils/question-kinds";
+import { RichText } from "./ui/rich-text";
+import { GenerationErrorCard } from "./GenerationErrorCard";
+import { isLLMError, LLMError } from "../services/llm";
 
 // --- Types ---
 
 type GameMode = "legacy" | "engine";
 type Genre = "economic" | "combat" | "spatial" | "social" | "racing" | "puzzle";
-type ObjectiveType = "remember" | "understand" | "apply" | "analyze" | "evaluate" | "create";
 
 interface CreateGameProps {
-  onGameGenerated: (data: GameData) => void;
+  onGameGenerated: (data: GameData, savedId: string | null) => void;
   onBack: () => void;
 }
 
@@ -40,7 +57,7 @@ const GENRES: { value: Genre; label: string; description: string }[] = [
   { value: "puzzle", label: "Puzzle", description: "Logic, pattern matching" },
 ];
 
-const MECHANICS = [
+const MECHANICS: { id: GameMechanic; label: string; description: string }[] = [
   { id: "economy", label: "Economy", description: "Currencies and trading" },
   { id: "combat", label: "Combat", description: "Health and damage" },
   { id: "movement", label: "Movement", description: "Grid or zone movement" },
@@ -60,14 +77,35 @@ const OBJECTIVE_TYPES: { value: ObjectiveType; label: string }[] = [
 
 export const CreateGame: React.FC<CreateGameProps> = ({ onGameGenerated, onBack }) => {
   // State
-  const [content, setContent] = useState("");
+  const [sources, setSources] = useState<SourceMaterial[]>([]);
+  const [pastedText, setPastedText] = useState("");
+  const fileQueue = useRef<File[]>([]);
+  // Figure ids ("F1", "F2", ...) run on across files so every figure in the bundle has its own
+  const nextFigure = useRef(1);
   const [fileName, setFileName] = useState("");
   const [objective, setObjective] = useState("");
   const [objectiveType, setObjectiveType] = useState<ObjectiveType>("understand");
+  const [questionCount, setQuestionCount] = useState(QUESTION_COUNT_LIMITS.DEFAULT);
+  const [typeMix, setTypeMix] = useState<QuestionTypeMix>(DEFAULT_TYPE_MIX);
   const [loading, setLoading] = useState(false);
   const [progressStage, setProgressStage] = useState("");
+  const [preview, setPreview] = useState<GenerationPreview | null>(null);
+  const generateAbort = useRef<AbortController | null>(null);
+  const generationOptions = useRef<GenerateOptions | null>(null);
+  // A game reused from the cache waits here so the teacher can open it or ask for a new one
+  const [cachedGame, setCachedGame] = useState<CachedGeneration | null>(null);
+  // Leaving the page stops the model calls of a generation still running
+  useEffect(() => () => generateAbort.current?.abort(), []);
   const [isParsing, setIsParsing] = useState(false);
+  const [parseProgress, setParseProgress] = useState<{ done: number; total: number; unit: string } | null>(null);
+  // Long documents wait here until the teacher picks which pages to extract
+  const [pendingFile, setPendingFile] = useState<{ file: File; outline: DocumentOutline } | null>(null);
+  const [pageRanges, setPageRanges] = useState("");
+  // Teachers often keep the explanation in the speaker notes rather than on the slide
+  const [includeSlideNotes, setIncludeSlideNotes] = useState(true);
+  const parseAbort = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [generationError, setGenerationError] = useState<LLMError | null>(null);
 
   // Game mode and hints
   const [gameMode, setGameMode] = useState<GameMode>("engine");
@@ -77,10 +115,16 @@ export const CreateGame: React.FC<CreateGameProps> = ({ onGameGenerated, onBack
   const [avoidMechanics, setAvoidMechanics] = useState<string[]>([]);
 
   // Helpers
+  // Text still in the paste box counts as a source, so a single paste works without extra clicks
+  const bundle = useMemo(
+    () => pastedText.trim() ? [...sources, { ...createSource("Pasted text", pastedText.trim()), id: "pasted" }] : sources,
+    [sources, pastedText]
+  );
+  const content = bundleText(bundle);
   const wordCount = content.trim().split(/\s+/).filter(Boolean).length;
   const isContentShort = wordCount > 0 && wordCount < 50;
-  const canGenerate = content.trim().length > 0 && objective.trim().length > 0;
-  const isCancelled = useRef(false);
+  const hasTypeMix = QUESTION_KINDS.some(kind => (typeMix[kind.value] || 0) > 0);
+  const canGenerate = content.trim().length > 0 && objective.trim().length > 0 && hasTypeMix;
 
   const toggleMechanic = (mechanicId: string, list: "preferred" | "avoid") => {
     if (list === "preferred") {
@@ -100,80 +144,195 @@ export const CreateGame: React.FC<CreateGameProps> = ({ onGameGenerated, onBack
     }
   };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const selectedPages = pendingFile ? parsePageRanges(pageRanges, pendingFile.outline.pageCount) : null;
 
-    setFileName(file.name);
+  const addSource = (source: SourceMaterial) => setSources(prev => [...prev, source]);
+
+  const updateSource = (id: string, patch: Partial<SourceMaterial>) =>
+    setSources(prev => prev.map(source => source.id === id ? { ...source, ...patch } : source));
+
+  const removeSource = (id: string) => setSources(prev => prev.filter(source => source.id !== id));
+
+  const addPastedText = () => {
+    if (!pastedText.trim()) return;
+    addSource(createSource(`Pasted text ${sources.length + 1}`, pastedText.trim()));
+    setPastedText("");
+  };
+
+  const extractFile = async (file: File, outline: DocumentOutline, pages?: number[]) => {
+    const controller = new AbortController();
+    parseAbort.current = controller;
     setIsParsing(true);
+    setPendingFile(null);
     setError(null);
-    setContent(""); // Clear previous content while loading
 
     try {
-        const extractedText = await parseFile(file);
+        const document = await parseFileWithCache(file, {
+          pages,
+          includeNotes: includeSlideNotes,
+          signal: controller.signal,
+          onProgress: (done, total) => setParseProgress({ done, total, unit: outline.unit || "" })
+        });
+        const label = labelFromFileName(file.name);
+        const { text: extractedText, figures } = documentContent(document, label, nextFigure.current);
         
         if (!extractedText || extractedText.trim().length === 0) {
              throw new Error("Could not extract any text from this file. It might be empty or scanned images.");
         }
-        setContent(extractedText);
+        nextFigure.current += figures.length;
+        addSource({ ...createSource(label, extractedText), figures });
     } catch (err: any) {
-        console.error("File parsing error:", err);
-        setError(err.message || "Failed to parse file.");
-        setFileName(""); // Reset filename on error
+        if (!controller.signal.aborted) {
+          console.error("File parsing error:", err);
+          setError(`${file.name}: ${err.message || "Failed to parse file."}`);
+        }
     } finally {
         setIsParsing(false);
-        // Clear input so same file can be selected again
-        e.target.value = '';
+        setParseProgress(null);
+        setFileName("");
+        parseAbort.current = null;
+    }
+    await processNextFile();
+  };
+
+  // Files are read one at a time; long ones stop the queue until the teacher picks pages
+  const processNextFile = async () => {
+    const file = fileQueue.current.shift();
+    if (!file) return;
+
+    setFileName(file.name);
+    const controller = new AbortController();
+    parseAbort.current = controller;
+    setIsParsing(true);
+
+    let outline: DocumentOutline;
+    try {
+        outline = await inspectFile(file, controller.signal);
+    } catch (err: any) {
+        if (!controller.signal.aborted) {
+          console.error("File parsing error:", err);
+          setError(`${file.name}: ${err.message || "Failed to parse file."}`);
+        }
+        setFileName("");
+        setIsParsing(false);
+        parseAbort.current = null;
+        return processNextFile();
+    }
+    parseAbort.current = null;
+
+    if (outline.pageCount > PAGE_SELECTION_THRESHOLD) {
+        setPendingFile({ file, outline });
+        setPageRanges(`1-${PAGE_SELECTION_THRESHOLD}`);
+        setIsParsing(false);
+        return;
     }
+    await extractFile(file, outline);
   };
 
-  const handleGenerate = async () => {
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    // Clear input so same file can be selected again
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setError(null);
+    fileQueue.current.push(...files);
+    await processNextFile();
+  };
+
+  // Skips the current file; the rest of the queue carries on
+  const cancelParsing = () => {
+    if (parseAbort.current) {
+      parseAbort.current.abort();
+      return;
+    }
+    setPendingFile(null);
+    setFileName("");
+    processNextFile();
+  };
+
+  // The reused game no longer matches once the material or settings change
+  useEffect(() => setCachedGame(null), [content, objective, objectiveType, gameMode, questionCount, typeMix, preferredGenre, preferredMechanics, avoidMechanics]);
+
+  // `fresh` skips the cache and replaces what it held for these settings
+  const handleGenerate = async (fresh = false) => {
     if (!canGenerate) return;
+    const controller = new AbortController();
+    generateAbort.current = controller;
     setLoading(true);
     setProgressStage("Initializing...");
+    setPreview(null);
     setError(null);
-    isCancelled.current = false;
+    setGenerationError(null);
+    setCachedGame(null);
 
     try {
       const options: GenerateOptions = {
         content,
+        sources: bundle,
         objective,
         objectiveType,
         gameMode,
+        questionCount,
+        typeMix,
         preferredGenre: preferredGenre || undefined,
         preferredMechanics: preferredMechanics.length > 0 ? preferredMechanics : undefined,
         avoidMechanics: avoidMechanics.length > 0 ? avoidMechanics : undefined,
+        onPreview: (next) => {
+          if (!controller.signal.aborted) setPreview(next);
+        },
+        signal: controller.signal
       };
+      generationOptions.current = options;
 
-      const data = await generateGameFromContent(options, (stage) => {
-        if (!isCancelled.current) {
+      const generation = await generateGameWithCache(options, (stage) => {
+        if (!controller.signal.aborted) {
             setProgressStage(stage);
         }
-      });
+      }, fresh);
       
-      if (!isCancelled.current) {
-        onGameGenerated(data);
-      }
+      if (controller.signal.aborted) return;
+      if (generation.fromCache) setCachedGame(generation);
+      else onGameGenerated(generation.game, generation.savedId);
     } catch (err: any) {
-      if (!isCancelled.current) {
+      if (!controller.signal.aborted) {
         console.error(err);
-        setError(err.message || "Failed to generate game. Please try again.");
+        if (isLLMError(err)) setGenerationError(err);
+        else setError(err.message || "Failed to generate game. Please try again.");
       }
     } finally {
-      if (!isCancelled.current) {
+      if (generateAbort.current === controller) {
+        generateAbort.current = null;
         setLoading(false);
         setProgressStage("");
+        setPreview(null);
       }
     }
   };
 
+  const reviewCachedGame = async () => {
+    if (!cachedGame || !generationOptions.current) return;
+    const { game, savedId } = cachedGame;
+    onGameGenerated(game, savedId ?? await saveCachedGame(generationOptions.current, game));
+  };
+
   const cancelGeneration = () => {
-    isCancelled.current = true;
+    generateAbort.current?.abort();
+    generateAbort.current = null;
     setLoading(false);
     setProgressStage("");
+    setPreview(null);
     setError(null);
   };
 
+  // Stops generating and opens the editor with the questions that are ready
+  const reviewPreview = async () => {
+    if (!preview || preview.questions.length === 0 || !generationOptions.current) return;
+    const game = gameFromPreview(preview, generationOptions.current);
+    cancelGeneration();
+    onGameGenerated(game, await saveGeneratedGame(game));
+  };
+
   return (
     <main className="min-h-screen bg-paper-50">
       {/* Navigation */}
@@ -267,32 +426,83 @@ export const CreateGame: React.FC<CreateGameProps> = ({ onGameGenerated, onBack
             {/* Upload Zone */}
             <div className={`border-2 border-dashed rounded-xl transition-colors mb-4 relative ${isParsing ? 'bg-paper-100 border-paper-300' : 'bg-paper-50 hover:bg-paper-100 border-paper-300'}`}>
                 {isParsing ? (
-                     <div className="flex items-center justify-center py-5">
-                         <Loader2 className="w-5 h-5 text-highlight-purple animate-spin mr-3" />
-                         <span className="text-sm font-medium text-paper-600">Extracting content...</span>
+                     <div className="py-4 px-4">
+                         <div className="flex items-center justify-center">
+                             <Loader2 className="w-5 h-5 text-highlight-purple animate-spin mr-3" />
+                             <span className="text-sm font-medium text-paper-600">
+                                 {fileName && <span className="text-paper-900">{fileName}: </span>}
+                                 {parseProgress && parseProgress.total > 1
+                                   ? `Extracting ${parseProgress.unit || "part"} ${parseProgress.done} of ${parseProgress.total}...`
+                                   : "Extracting content..."}
+                             </span>
+                             <Button onClick={cancelParsing} size="sm" variant="ghost" className="ml-3">
+                                 Cancel
+                             </Button>
+                         </div>
+                         {parseProgress && parseProgress.total > 1 && (
+                             <div className="mt-3 h-1.5 bg-paper-200 rounded-full overflow-hidden">
+                                 <div
+                                   className="h-full bg-highlight-purple transition-all"
+                                   style={{ width: `${(parseProgress.done / parseProgress.total) * 100}%` }}
+                                 />
+                             </div>
+                         )}
+                     </div>
+                ) : pendingFile ? (
+                     <div className="p-4 space-y-3">
+                         <div className="flex items-center gap-2 text-paper-900 font-medium text-sm">
+                             <File className="w-4 h-4 flex-shrink-0" />
+                             <span className="truncate max-w-[200px]">{fileName}</span>
+                             <span className="text-paper-500 font-normal">
+                                 · {pendingFile.outline.pageCount} {pendingFile.outline.unit}s
+                             </span>
+                         </div>
+                         <div>
+                             <label className="block text-xs font-bold uppercase tracking-wider text-paper-500 mb-1">
+                                 {pendingFile.outline.unit === "slide" ? "Slides" : "Pages"} to extract
+                             </label>
+                             <input
+                                 type="text"
+                                 value={pageRanges}
+                                 onChange={(e) => setPageRanges(e.target.value)}
+                                 placeholder="e.g. 1-20, 45, 60-70"
+                                 className={`w-full px-3 py-2 rounded-lg border-2 focus:ring-0 text-sm bg-white ${selectedPages ? "border-paper-200 focus:border-paper-900" : "border-red-300 focus:border-red-500"}`}
+                             />
+                             <p className={`text-xs mt-1 ${selectedPages ? "text-paper-500" : "text-red-600"}`}>
+                                 {selectedPages
+                                   ? `${selectedPages.length} selected. Use ranges and single numbers, e.g. 1-20, 45, 60-70.`
+                                   : `Enter numbers between 1 and ${pendingFile.outline.pageCount}, e.g. 1-20, 45, 60-70.`}
+                             </p>
+                         </div>
+                         <div className="flex gap-2">
+                             <Button
+                                 onClick={() => selectedPages && extractFile(pendingFile.file, pendingFile.outline, selectedPages)}
+                                 disabled={!selectedPages}
+                                 size="sm"
+                             >
+                                 Extract
+                             </Button>
+                             <Button onClick={cancelParsing} size="sm" variant="ghost">
+                                 Cancel
+                             </Button>
+                         </div>
                      </div>
                 ) : (
                     <label className={`cursor-pointer flex flex-row items-center justify-center gap-3 w-full py-3 px-4 ${loading ? 'opacity-50 pointer-events-none' : ''}`}>
                         <div className="w-8 h-8 bg-white rounded-full shadow-sm flex items-center justify-center flex-shrink-0 border border-paper-100">
                             <Upload className="w-4 h-4 text-paper-600" />
                         </div>
-                        <div>
-                            {fileName ? (
-                                <div className="flex items-center gap-2 text-paper-900 font-medium text-sm">
-                                    <File className="w-4 h-4 flex-shrink-0" />
-                                    <span className="truncate max-w-[200px]">{fileName}</span>
-                                </div>
-                            ) : (
-                                <div className="flex flex-col sm:flex-row sm:items-center sm:gap-2">
-                                    <span className="text-sm font-medium text-paper-900">Click to upload file</span>
-                                    <span className="text-xs text-paper-500 hidden sm:inline">•</span>
-                                    <span className="text-xs text-paper-500">PDF, DOCX, PPTX, TXT, MD</span>
-                                </div>
-                            )}
+                        <div className="flex flex-col sm:flex-row sm:items-center sm:gap-2">
+                            <span className="text-sm font-medium text-paper-900">
+                                {sources.length > 0 ? "Add more files" : "Click to upload files"}
+                            </span>
+                            <span className="text-xs text-paper-500 hidden sm:inline">•</span>
+                            <span className="text-xs text-paper-500">PDF, DOCX, PPTX, EPUB, HTML, ODT, RTF, CSV, SRT, TXT…</span>
                         </div>
                         <input 
                             type="file" 
-                            accept=".txt,.pdf,.docx,.pptx,.md" 
+                            multiple
+                            accept={SUPPORTED_EXTENSIONS.map(extension => `.${extension}`).join(",")}
                             onChange={handleFileUpload}
                             className="hidden" 
                             disabled={loading}
@@ -301,6 +511,61 @@ export const CreateGame: React.FC<CreateGameProps> = ({ onGameGenerated, onBack
                 )}
             </div>
 
+            {/* Slide Notes */}
+            <div className="flex items-center justify-between gap-3 mb-4">
+              <span className="text-xs text-paper-500">PowerPoint speaker notes and image descriptions</span>
+              <button
+                type="button"
+                onClick={() => setIncludeSlideNotes(include => !include)}
+                aria-pressed={includeSlideNotes}
+                disabled={loading || isParsing}
+                className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${
+                  includeSlideNotes
+                    ? "bg-highlight-green text-paper-900 border border-highlight-green"
+                    : "bg-paper-100 text-paper-500 hover:bg-paper-200"
+                }`}
+              >
+                {includeSlideNotes ? "Included" : "Skipped"}
+              </button>
+            </div>
+
+            {/* Source Bundle */}
+            {sources.length > 0 && (
+              <div className="space-y-2 mb-4">
+                {sources.map(source => (
+                  <div key={source.id} className="flex items-center gap-2 p-2 rounded-lg border-2 border-paper-200 bg-white">
+                    <FileText className="w-4 h-4 text-paper-500 flex-shrink-0" />
+                    <input
+                      type="text"
+                      value={source.label}
+                      onChange={(e) => updateSource(source.id, { label: e.target.value })}
+                      className="flex-1 min-w-0 px-2 py-1 rounded border-0 focus:ring-2 focus:ring-paper-200 text-sm font-medium text-paper-900"
+                      aria-label="Source label"
+                      disabled={loading}
+                    />
+                    <span className="text-xs text-paper-400 whitespace-nowrap hidden sm:inline">
+                      {source.text.split(/\s+/).filter(Boolean).length} words
+                      {source.figures && source.figures.length > 0 && ` · ${source.figures.length} figures`}
+                    </span>
+                    <select
+                      value={source.weight}
+                      onChange={(e) => updateSource(source.id, { weight: Number(e.target.value) })}
+                      className="h-8 px-2 rounded-lg border-2 border-paper-200 focus:border-paper-900 focus:ring-0 text-xs bg-white"
+                      title="How many questions should come from this source"
+                      disabled={loading}
+                    >
+                      {SOURCE_WEIGHTS.map(weight => (
+                        <option key={weight.value} value={weight.value}>{weight.label}</option>
+                      ))}
+                    </select>
+                    <Button onClick={() => removeSource(source.id)} size="sm" variant="ghost" title="Remove source" disabled={loading}>
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
             {/* Divider */}
             <div className="flex items-center gap-4 my-3">
               <div className="flex-1 h-px bg-paper-200" />
@@ -313,10 +578,20 @@ export const CreateGame: React.FC<CreateGameProps> = ({ onGameGenerated, onBack
                  <textarea
                     className="w-full h-24 p-4 rounded-xl border-2 border-paper-200 focus:border-paper-900 focus:ring-0 resize-none font-mono text-sm bg-white transition-colors placeholder:text-paper-400 disabled:opacity-50"
                     placeholder="Paste your lesson content here..."
-                    value={content}
-                    onChange={(e) => setContent(e.target.value)}
-                    disabled={isParsing || loading}
+                    value={pastedText}
+                    onChange={(e) => setPastedText(e.target.value)}
+                    disabled={loading}
                 />
+                {pastedText.trim() && (
+                    <button
+                        type="button"
+                        onClick={addPastedText}
+                        className="mt-1 text-xs font-medium text-paper-500 hover:text-paper-900"
+                        disabled={loading}
+                    >
+                        + Keep as a separate source and paste another
+                    </button>
+                )}
             </div>
           </Card>
         </div>
@@ -369,6 +644,55 @@ export const CreateGame: React.FC<CreateGameProps> = ({ onGameGenerated, onBack
                 ))}
               </div>
             </div>
+
+            {/* Question Count */}
+            <div>
+              <label className="flex items-center justify-between text-sm font-medium text-paper-700 mb-3">
+                <span>Number of Questions</span>
+                <span className="font-bold text-paper-900">{questionCount}</span>
+              </label>
+              <input
+                type="range"
+                min={QUESTION_COUNT_LIMITS.MIN}
+                max={QUESTION_COUNT_LIMITS.MAX}
+                value={questionCount}
+                onChange={(e) => setQuestionCount(Number(e.target.value))}
+                disabled={loading}
+                className="w-full accent-paper-900"
+              />
+              <div className="flex justify-between text-xs text-paper-400 mt-1">
+                <span>{QUESTION_COUNT_LIMITS.MIN}</span>
+                <span>{QUESTION_COUNT_LIMITS.MAX}</span>
+              </div>
+            </div>
+
+            {/* Question Type Mix */}
+            <div>
+              <label className="block text-sm font-medium text-paper-700 mb-3">
+                Question Types (relative weight)
+              </label>
+              <div className="space-y-2">
+                {QUESTION_KINDS.map(kind => (
+                  <div key={kind.value} className="flex items-center gap-4 p-3 bg-paper-50 rounded-lg border border-paper-200">
+                    <span className="w-40 font-medium text-sm text-paper-900">{kind.label}</span>
+                    <input
+                      type="range"
+                      min={0}
+                      max={100}
+                      step={10}
+                      value={typeMix[kind.value] || 0}
+                      onChange={(e) => setTypeMix({ ...typeMix, [kind.value]: Number(e.target.value) })}
+                      disabled={loading}
+                      className="flex-1 accent-paper-900"
+                    />
+                    <span className="w-10 text-right text-xs text-paper-500">{typeMix[kind.value] || 0}</span>
+                  </div>
+                ))}
+              </div>
+              {!hasTypeMix && (
+                <p className="text-xs text-red-600 mt-2">Give at least one question type a weight above zero.</p>
+              )}
+            </div>
           </Card>
         </div>
 
@@ -475,7 +799,7 @@ export const CreateGame: React.FC<CreateGameProps> = ({ onGameGenerated, onBack
         {/* Generate Button */}
         <div className="flex flex-col gap-3">
           <Button
-            onClick={handleGenerate}
+            onClick={() => handleGenerate()}
             disabled={!canGenerate || loading || isParsing}
             variant={gameMode === "engine" ? "purple" : "yellow"}
             size="lg"
@@ -499,6 +823,61 @@ export const CreateGame: React.FC<CreateGameProps> = ({ onGameGenerated, onBack
             )}
           </Button>
 
+          {cachedGame && (
+            <Card variant="default" className="p-4">
+              <div className="flex items-start gap-3 mb-3">
+                <History className="w-5 h-5 text-paper-500 flex-shrink-0 mt-0.5" />
+                <div>
+                  <p className="font-bold text-paper-900">Reused from cache</p>
+                  <p className="text-sm text-paper-600">
+                    "{cachedGame.game.title}" was made earlier from the same material and settings, so no new questions were generated.
+                  </p>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={reviewCachedGame} variant="outline" size="sm" className="flex-1">
+                  <ClipboardCheck className="w-4 h-4 mr-2" /> Review this game
+                </Button>
+                <Button onClick={() => handleGenerate(true)} variant="outline" size="sm" className="flex-1">
+                  <RefreshCw className="w-4 h-4 mr-2" /> Generate fresh
+                </Button>
+              </div>
+            </Card>
+          )}
+
+          {loading && preview && (preview.questions.length > 0 || preview.drafting) && (
+            <Card variant="default" className="p-4">
+              <div className="flex items-center justify-between gap-3 mb-3">
+                <span className="font-bold text-paper-900 truncate">{preview.details?.title || "Writing your questions..."}</span>
+                <Badge variant="green">{preview.questions.length} / {preview.total} ready</Badge>
+              </div>
+              <ol className="space-y-2 max-h-80 overflow-y-auto">
+                {preview.questions.map((question, i) => (
+                  <li key={i} className="flex items-start gap-3 text-sm animate-slide-up">
+                    <span className="w-6 h-6 rounded-md bg-paper-100 text-paper-600 text-xs font-bold flex items-center justify-center flex-shrink-0">{i + 1}</span>
+                    <div className="min-w-0">
+                      <RichText text={question.text} className="text-paper-900" />
+                      <span className="block text-xs text-paper-400">{questionKindLabel(question.kind)}{question.concept ? ` · ${question.concept}` : ""}</span>
+                    </div>
+                  </li>
+                ))}
+                {preview.drafting && (
+                  <li className="flex items-start gap-3 text-sm text-paper-400">
+                    <Loader2 className="w-4 h-4 mt-0.5 animate-spin flex-shrink-0" />
+                    {/* Plain text: half-written notation would not render */}
+                    <span className="italic line-clamp-2">{preview.drafting}</span>
+                  </li>
+                )}
+              </ol>
+              {preview.questions.length > 0 && (
+                <Button onClick={reviewPreview} variant="outline" size="sm" className="w-full mt-4">
+                  <ClipboardCheck className="w-4 h-4 mr-2" />
+                  Stop and review {preview.questions.length} question{preview.questions.length === 1 ? "" : "s"}
+                </Button>
+              )}
+            </Card>
+          )}
+
           {loading && (
              <Button
                 onClick={cancelGeneration}
@@ -512,6 +891,7 @@ export const CreateGame: React.FC<CreateGameProps> = ({ onGameGenerated, onBack
         </div>
 
         {/* Error Display */}
+        {generationError && <GenerationErrorCard error={generationError} />}
         {error && (
           <Card variant="pink" className="mt-6 p-4 flex items-start gap-3">
              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
@@ -0,0 +1,527 @@
+import React, { useState, useMemo, useRef, useEffect } from "react";
+import { Button } from "./ui/button";
+import { Card } from "./ui/card";
+import { Badge } from "./ui/badge";
+import {
+  GraduationCap,
+  ArrowUp,
+  ArrowDown,
+  Trash2,
+  Plus,
+  Play,
+  Save,
+  AlertCircle,
+  AlertTriangle,
+  Check,
+  RefreshCw,
+  Loader2,
+  BookOpen,
+  ShieldCheck,
+  X
+} from "lucide-react";
+import { GameData, MediaAsset, Question, QuestionKind } from "../types";
+import { AnswerDisagreement, regenerateQuestion, RegenerateVariant, verifyAnswers } from "../services/gemini";
+import { hasBlockingIssues, optionLabel, validateGame, ValidationIssue } from "../utils/game-validation";
+import { lintQuestions } from "../utils/question-lint";
+import { createBlankQuestion, QUESTION_KINDS } from "../utils/question-kinds";
+import { fitImage, mediaId, nextMediaNumber } from "../utils/media";
+import { hasNotation } from "../utils/rich-text";
+import { isLLMError } from "../services/llm";
+import { AnswerEditor } from "./AnswerEditor";
+import { ERROR_GUIDANCE } from "./GenerationErrorCard";
+import { ImagePicker } from "./ImagePicker";
+import { RichText } from "./ui/rich-text";
+
+interface GameEditorProps {
+  gameData: GameData;
+  onSave: (game: GameData) => Promise<void>;
+  onHost: (game: GameData) => void;
+  onBack: () => void;
+}
+
+const REGENERATE_ACTIONS: { variant: RegenerateVariant; label: string }[] = [
+  { variant: "replace", label: "New question" },
+  { variant: "similar", label: "Another like this" },
+  { variant: "harder", label: "Harder" },
+  { variant: "easier", label: "Easier" },
+  { variant: "different_misconception", label: "Different misconception" },
+];
+
+const optionLetters = (indexes: number[]) => indexes.map(i => optionLabel(i).replace("Option ", "")).join(", ");
+
+// Failures the teacher has to fix get the same guidance as on the create page
+const failureMessage = (err: any, fallback: string) => {
+  const guidance = isLLMError(err) && !err.retryable ? ERROR_GUIDANCE[err.kind] : null;
+  return guidance ? `${guidance.title}. ${guidance.advice}` : err.message || fallback;
+};
+
+const inputClass = "w-full px-3 py-2 rounded-lg border-2 border-paper-200 focus:border-paper-900 focus:ring-0 transition-all text-sm bg-white";
+
+// How students will see math, emphasis and code typed into a field
+const NotationPreview: React.FC<{ text: string }> = ({ text }) => hasNotation(text) ? (
+  <div className="mt-2 px-3 py-2 rounded-lg bg-paper-50 border-2 border-dashed border-paper-200 text-sm text-paper-800">
+    <RichText text={text} />
+  </div>
+) : null;
+
+// --- Question Card ---
+
+interface QuestionCardProps {
+  question: Question;
+  index: number;
+  total: number;
+  issues: ValidationIssue[];
+  onChange: (question: Question) => void;
+  media: MediaAsset[];
+  onUploadImage: (file: File) => Promise<string>;
+  onMove: (direction: -1 | 1) => void;
+  onDelete: () => void;
+  // Undefined when the game has no source material to regenerate from
+  onRegenerate?: (variant: RegenerateVariant) => void;
+  onCancelRegenerate: () => void;
+  regenerating: boolean;
+}
+
+const QuestionCard: React.FC<QuestionCardProps> = ({ question, index, total, issues, onChange, media, onUploadImage, onMove, onDelete, onRegenerate, onCancelRegenerate, regenerating }) => {
+  const update = (patch: Partial<Pick<Question, 'text' | 'explanation' | 'concept' | 'misconception'>>) => onChange({ ...question, ...patch });
+
+  // Switching kinds keeps the wording; choice questions also keep their options.
+  const changeKind = (kind: QuestionKind) => {
+    const next = createBlankQuestion(kind, question);
+    if ('options' in question && (next.kind === 'multiple_choice' || next.kind === 'multi_select') && question.kind !== 'true_false') {
+      next.options = question.options;
+      next.optionImages = question.optionImages;
+      if (next.kind === 'multiple_choice' && question.kind === 'multi_select') next.correctIndex = question.correctIndices[0] ?? 0;
+      if (next.kind === 'multi_select' && question.kind === 'multiple_choice') next.correctIndices = [question.correctIndex];
+    }
+    onChange(next);
+  };
+
+  const errors = issues.filter(i => i.severity === 'error');
+  const warnings = issues.filter(i => i.severity === 'warning');
+
+  return (
+    <Card variant={errors.length > 0 ? "pink" : "default"} className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Badge variant="yellow">Q{index + 1}</Badge>
+          {question.concept && <Badge variant="blue">{question.concept}</Badge>}
+        </div>
+        <div className="flex items-center gap-1">
+          <Button onClick={() => onMove(-1)} disabled={index === 0} size="sm" variant="ghost" title="Move up">
+            <ArrowUp className="w-4 h-4" />
+          </Button>
+          <Button onClick={() => onMove(1)} disabled={index === total - 1} size="sm" variant="ghost" title="Move down">
+            <ArrowDown className="w-4 h-4" />
+          </Button>
+          <Button onClick={onDelete} size="sm" variant="ghost" title="Delete question" className="text-red-500 hover:bg-red-50 hover:text-red-700">
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {onRegenerate && (
+        <div className="flex flex-wrap items-center gap-2 mb-4 pb-4 border-b border-paper-200">
+          {regenerating ? (
+            <>
+              <span className="flex items-center gap-2 text-xs font-medium text-paper-500">
+                <Loader2 className="w-3 h-3 animate-spin" /> Asking the AI...
+              </span>
+              <button
+                type="button"
+                onClick={onCancelRegenerate}
+                className="px-2.5 py-1 rounded-lg text-xs font-medium text-red-500 hover:bg-red-50 hover:text-red-700 transition-colors"
+              >
+                Cancel
+              </button>
+            </>
+          ) : (
+            <>
+              <RefreshCw className="w-3 h-3 text-paper-400" />
+              {REGENERATE_ACTIONS.map(action => (
+                <button
+                  key={action.variant}
+                  type="button"
+                  onClick={() => onRegenerate(action.variant)}
+                  className="px-2.5 py-1 rounded-lg text-xs font-medium bg-paper-100 text-paper-600 hover:bg-highlight-purple/20 hover:text-paper-900 transition-colors"
+                >
+                  {action.label}
+                </button>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <div>
+          <label className="block text-xs font-bold uppercase tracking-wider text-paper-500 mb-1">Question Type</label>
+          <select
+            value={question.kind}
+            onChange={(e) => changeKind(e.target.value as QuestionKind)}
+            className={inputClass}
+          >
+            {QUESTION_KINDS.map(kind => (
+              <option key={kind.value} value={kind.value}>{kind.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-xs font-bold uppercase tracking-wider text-paper-500 mb-1">Question</label>
+          <div className="flex items-start gap-2">
+            <textarea
+              value={question.text}
+              onChange={(e) => update({ text: e.target.value })}
+              className={`${inputClass} h-20 resize-none`}
+              placeholder="What do you want to ask?"
+            />
+            <ImagePicker
+              value={question.image}
+              media={media}
+              onChange={(image) => onChange({ ...question, image })}
+              onUpload={onUploadImage}
+            />
+          </div>
+          <NotationPreview text={question.text} />
+        </div>
+
+        <AnswerEditor question={question} onChange={onChange} media={media} onUploadImage={onUploadImage} />
+
+        <div>
+          <label className="block text-xs font-bold uppercase tracking-wider text-paper-500 mb-1">Explanation</label>
+          <textarea
+            value={question.explanation}
+            onChange={(e) => update({ explanation: e.target.value })}
+            className={`${inputClass} h-16 resize-none`}
+            placeholder="Why is the correct answer right?"
+          />
+          <NotationPreview text={question.explanation} />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs font-bold uppercase tracking-wider text-paper-500 mb-1">Concept</label>
+            <input
+              type="text"
+              value={question.concept}
+              onChange={(e) => update({ concept: e.target.value })}
+              className={inputClass}
+              placeholder="e.g. Photosynthesis"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-bold uppercase tracking-wider text-paper-500 mb-1">Misconception</label>
+            <input
+              type="text"
+              value={question.misconception || ""}
+              onChange={(e) => update({ misconception: e.target.value })}
+              className={inputClass}
+              placeholder="A common wrong belief this targets"
+            />
+          </div>
+        </div>
+
+        {question.source && (
+          <div className="rounded-lg bg-paper-50 border-2 border-paper-200 p-3">
+            <div className="flex items-center justify-between mb-1">
+              <span className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-paper-500">
+                <BookOpen className="w-3 h-3" /> Source{question.source.ref ? `: ${question.source.ref}` : ""}
+                {question.source.material && <span className="normal-case font-normal">in {question.source.material}</span>}
+              </span>
+              <button
+                type="button"
+                onClick={() => onChange({ ...question, source: undefined })}
+                className="text-paper-400 hover:text-paper-900"
+                title="Remove source"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+            <p className="text-sm text-paper-700 italic">“{question.source.quote}”</p>
+          </div>
+        )}
+
+        {(errors.length > 0 || warnings.length > 0) && (
+          <ul className="space-y-1">
+            {errors.map(issue => (
+              <li key={issue.path + issue.message} className="flex items-center gap-2 text-xs text-red-700">
+                <AlertCircle className="w-3 h-3 flex-shrink-0" /> {issue.message}
+              </li>
+            ))}
+            {warnings.map(issue => (
+              <li key={issue.path + issue.message} className="flex items-center gap-2 text-xs text-yellow-800">
+                <AlertTriangle className="w-3 h-3 flex-shrink-0" /> {issue.message}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+// --- Main Component ---
+
+export const GameEditor: React.FC<GameEditorProps> = ({ gameData, onSave, onHost, onBack }) => {
+  const [draft, setDraft] = useState<GameData>(gameData);
+  const [saving, setSaving] = useState(false);
+  const [savedAt, setSavedAt] = useState<number | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
+  const regenerateAbort = useRef<AbortController | null>(null);
+  // Disagreements from the last answer check, kept with the question as it was checked
+  const [answerCheck, setAnswerCheck] = useState<{ question: Question; disagreement: AnswerDisagreement }[]>([]);
+  const [checkingAnswers, setCheckingAnswers] = useState(false);
+  const checkAbort = useRef<AbortController | null>(null);
+
+  // Leaving the editor stops a regeneration or answer check that is still running
+  useEffect(() => () => {
+    regenerateAbort.current?.abort();
+    checkAbort.current?.abort();
+  }, []);
+
+  const issues = useMemo(() => {
+    // A check no longer applies once its question has been edited
+    const disagreements = draft.questions.flatMap((question, index): ValidationIssue[] =>
+      answerCheck
+        .filter(check => check.question === question)
+        .map(({ disagreement }) => ({
+          severity: 'warning',
+          path: `questions.${index}.options`,
+          questionIndex: index,
+          message: `Answering without the key, the AI chose ${optionLetters(disagreement.chosen)} but ${optionLetters(disagreement.expected)} is marked correct. Check for a second defensible answer.`
+        }))
+    );
+    return [...validateGame(draft), ...lintQuestions(draft.questions), ...disagreements];
+  }, [draft, answerCheck]);
+  const blocked = hasBlockingIssues(issues);
+  const warningCount = issues.filter(i => i.severity === 'warning').length;
+  const gameLevelIssues = issues.filter(i => i.questionIndex === undefined);
+
+  const updateQuestions = (questions: Question[]) => {
+    setDraft(d => ({ ...d, questions }));
+    setSavedAt(null);
+  };
+
+  const updateDetails = (details: Partial<Pick<GameData, 'title' | 'description'>>) => {
+    setDraft(d => ({ ...d, ...details }));
+    setSavedAt(null);
+  };
+
+  const updateQuestion = (index: number, question: Question) => {
+    updateQuestions(draft.questions.map((q, i) => i === index ? question : q));
+  };
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= draft.questions.length) return;
+    const questions = [...draft.questions];
+    [questions[index], questions[target]] = [questions[target], questions[index]];
+    updateQuestions(questions);
+  };
+
+  const deleteQuestion = (index: number) => {
+    updateQuestions(draft.questions.filter((_, i) => i !== index));
+  };
+
+  const handleRegenerate = async (index: number, variant: RegenerateVariant) => {
+    const generation = draft.generation;
+    const target = draft.questions[index];
+    if (!generation || regeneratingId) return;
+
+    const controller = new AbortController();
+    regenerateAbort.current = controller;
+    setRegeneratingId(target.id);
+    setSaveError(null);
+    try {
+      const question = await regenerateQuestion({
+        ...generation,
+        existingQuestions: draft.questions,
+        target,
+        variant,
+        media: draft.media,
+        signal: controller.signal
+      });
+      setDraft(d => {
+        const position = d.questions.findIndex(q => q.id === target.id);
+        if (position === -1) return d;
+        const questions = [...d.questions];
+        // "Another like this" adds a sibling; every other variant replaces the question in place
+        if (variant === "similar") {
+          questions.splice(position + 1, 0, question);
+        } else {
+          questions[position] = { ...question, id: target.id };
+        }
+        return { ...d, questions };
+      });
+      setSavedAt(null);
+    } catch (err: any) {
+      if (!controller.signal.aborted) setSaveError(failureMessage(err, "Could not regenerate the question."));
+    } finally {
+      if (regenerateAbort.current === controller) regenerateAbort.current = null;
+      setRegeneratingId(null);
+    }
+  };
+
+  const cancelRegenerate = () => regenerateAbort.current?.abort();
+
+  const handleCheckAnswers = async () => {
+    if (checkingAnswers) return;
+    const controller = new AbortController();
+    checkAbort.current = controller;
+    const questions = draft.questions;
+    setCheckingAnswers(true);
+    setSaveError(null);
+    try {
+      const disagreements = await verifyAnswers(questions, controller.signal);
+      setAnswerCheck(disagreements.map(disagreement => ({
+        question: questions.find(q => q.id === disagreement.questionId)!,
+        disagreement
+      })));
+    } catch (err: any) {
+      if (!controller.signal.aborted) setSaveError(failureMessage(err, "Could not check the answers."));
+    } finally {
+      if (checkAbort.current === controller) checkAbort.current = null;
+      setCheckingAnswers(false);
+    }
+  };
+
+  // Uploads are scaled like extracted figures and numbered after them
+  const uploadImage = async (file: File): Promise<string> => {
+    const fitted = await fitImage(file);
+    if (!fitted) throw new Error("This browser cannot display that image. Try a PNG or JPEG.");
+    const id = mediaId(nextMediaNumber(draft.media || []));
+    const asset: MediaAsset = { id, blob: fitted.blob, alt: file.name.replace(/\.[^.]+$/, "").replace(/[-_]+/g, " ") };
+    setDraft(d => ({ ...d, media: [...(d.media || []), asset] }));
+    setSavedAt(null);
+    return id;
+  };
+
+  // Resolves to false when the save failed; the error is shown below the questions
+  const handleSave = async (): Promise<boolean> => {
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await onSave(draft);
+      setSavedAt(Date.now());
+      return true;
+    } catch (err: any) {
+      setSaveError(err.message || "Could not save your changes.");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleHost = async () => {
+    if (blocked) return;
+    if (await handleSave()) onHost(draft);
+  };
+
+  return (
+    <main className="min-h-screen bg-paper-50">
+      {/* Navigation */}
+      <nav className="sticky top-0 z-50 bg-white/95 border-b-2 border-paper-200">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-2">
+              <div className="w-10 h-10 bg-highlight-yellow rounded-lg border-2 border-paper-900 flex items-center justify-center">
+                <GraduationCap className="w-6 h-6 text-paper-900" />
+              </div>
+              <span className="font-display text-xl font-bold text-paper-900">Teachify</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button onClick={() => handleSave()} disabled={saving} size="sm" variant="ghost">
+                {savedAt ? <Check className="w-4 h-4 mr-2" /> : <Save className="w-4 h-4 mr-2" />}
+                {savedAt ? "Saved" : "Save"}
+              </Button>
+              <Button onClick={handleHost} disabled={blocked || saving} size="sm" variant="purple">
+                <Play className="w-4 h-4 mr-2" /> Host Game
+              </Button>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <div className="max-w-4xl mx-auto p-4 md:py-12">
+        <button
+          onClick={onBack}
+          className="text-paper-600 hover:text-paper-900 transition-colors text-sm font-medium mb-6"
+        >
+          ← Back
+        </button>
+
+        {/* Game details */}
+        <Card variant="default" className="p-6 mb-8 space-y-4">
+          <div>
+            <label className="block text-xs font-bold uppercase tracking-wider text-paper-500 mb-1">Title</label>
+            <input
+              type="text"
+              value={draft.title}
+              onChange={(e) => updateDetails({ title: e.target.value })}
+              className={`${inputClass} text-lg font-semibold`}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-bold uppercase tracking-wider text-paper-500 mb-1">Description</label>
+            <textarea
+              value={draft.description}
+              onChange={(e) => updateDetails({ description: e.target.value })}
+              className={`${inputClass} h-16 resize-none`}
+            />
+          </div>
+          {gameLevelIssues.map(issue => (
+            <p key={issue.path} className="flex items-center gap-2 text-xs text-red-700">
+              <AlertCircle className="w-3 h-3" /> {issue.message}
+            </p>
+          ))}
+        </Card>
+
+        {/* Questions */}
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <Badge variant="yellow">{draft.questions.length} Questions</Badge>
+            {blocked && <Badge variant="pink">Fix errors before hosting</Badge>}
+            {warningCount > 0 && <Badge variant="default">{warningCount} warning{warningCount === 1 ? "" : "s"} to review</Badge>}
+          </div>
+          <Button onClick={checkingAnswers ? () => checkAbort.current?.abort() : handleCheckAnswers} size="sm" variant="ghost">
+            {checkingAnswers ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ShieldCheck className="w-4 h-4 mr-2" />}
+            {checkingAnswers ? "Cancel check" : "Check answers with AI"}
+          </Button>
+        </div>
+
+        <div className="space-y-4">
+          {draft.questions.map((question, index) => (
+            <QuestionCard
+              key={question.id}
+              question={question}
+              index={index}
+              total={draft.questions.length}
+              issues={issues.filter(i => i.questionIndex === index)}
+              onChange={(q) => updateQuestion(index, q)}
+              media={draft.media || []}
+              onUploadImage={uploadImage}
+              onMove={(direction) => moveQuestion(index, direction)}
+              onDelete={() => deleteQuestion(index)}
+              onRegenerate={draft.generation ? (variant) => handleRegenerate(index, variant) : undefined}
+              onCancelRegenerate={cancelRegenerate}
+              regenerating={regeneratingId === question.id}
+            />
+          ))}
+        </div>
+
+        <Button onClick={() => updateQuestions([...draft.questions, createBlankQuestion('multiple_choice')])} variant="outline" className="w-full mt-4">
+          <Plus className="w-4 h-4 mr-2" /> Add Question
+        </Button>
+
+        {saveError && (
+          <Card variant="pink" className="mt-6 p-4 flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-700">{saveError}</p>
+          </Card>
+        )}
+      </div>
+    </main>
+  );
+};
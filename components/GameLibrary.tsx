@@ -0,0 +1,194 @@
+import React, { useState, useEffect } from "react";
+import { Button } from "./ui/button";
+import { Card } from "./ui/card";
+import { Badge } from "./ui/badge";
+import {
+  GraduationCap,
+  Play,
+  Copy,
+  Trash2,
+  Pencil,
+  Check,
+  X,
+  Plus,
+  Loader2,
+  Library,
+  AlertCircle
+} from "lucide-react";
+import { gameLibrary, SavedGame } from "../services/game-library";
+
+interface GameLibraryProps {
+  onHost: (saved: SavedGame) => void;
+  onEdit: (saved: SavedGame) => void;
+  onCreate: () => void;
+  onBack: () => void;
+}
+
+export const GameLibrary: React.FC<GameLibraryProps> = ({ onHost, onEdit, onCreate, onBack }) => {
+  const [games, setGames] = useState<SavedGame[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  const refresh = async () => {
+    try {
+      setGames(await gameLibrary.list());
+    } catch (err: any) {
+      console.error("Failed to load library", err);
+      setError(err.message || "Could not load your games.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      await refresh();
+    } catch (err: any) {
+      setError(err.message || "Something went wrong. Please try again.");
+    }
+  };
+
+  const startRename = (saved: SavedGame) => {
+    setRenamingId(saved.id);
+    setDraftName(saved.name);
+  };
+
+  const confirmRename = (id: string) => {
+    runAction(() => gameLibrary.rename(id, draftName));
+    setRenamingId(null);
+  };
+
+  const handleDelete = (saved: SavedGame) => {
+    if (!window.confirm(`Delete "${saved.name}"? This cannot be undone.`)) return;
+    runAction(() => gameLibrary.remove(saved.id));
+  };
+
+  return (
+    <main className="min-h-screen bg-paper-50">
+      {/* Navigation */}
+      <nav className="sticky top-0 z-50 bg-white/95 border-b-2 border-paper-200">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-2 cursor-pointer" onClick={onBack}>
+              <div className="w-10 h-10 bg-highlight-yellow rounded-lg border-2 border-paper-900 flex items-center justify-center">
+                <GraduationCap className="w-6 h-6 text-paper-900" />
+              </div>
+              <span className="font-display text-xl font-bold text-paper-900">Teachify</span>
+            </div>
+            <button
+              onClick={onBack}
+              className="text-paper-600 hover:text-paper-900 transition-colors text-sm font-medium"
+            >
+              ← Back to Home
+            </button>
+          </div>
+        </div>
+      </nav>
+
+      <div className="max-w-4xl mx-auto p-4 md:py-12">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 mb-10">
+          <div>
+            <h1 className="font-display text-4xl md:text-5xl font-bold text-paper-900 mb-2">
+              My Games
+            </h1>
+            <p className="text-lg text-paper-500">
+              Host a saved game again without generating it from scratch
+            </p>
+          </div>
+          <Button onClick={onCreate} variant="yellow">
+            <Plus className="w-4 h-4 mr-2" /> New Game
+          </Button>
+        </div>
+
+        {error && (
+          <Card variant="pink" className="mb-6 p-4 flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-700">{error}</p>
+          </Card>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-16 text-paper-500">
+            <Loader2 className="w-5 h-5 animate-spin mr-3" />
+            <span className="text-sm font-medium">Loading your games...</span>
+          </div>
+        ) : games.length === 0 ? (
+          <Card variant="default" className="p-10 text-center">
+            <Library className="w-10 h-10 text-paper-300 mx-auto mb-4" />
+            <p className="font-semibold text-paper-900 mb-1">No saved games yet</p>
+            <p className="text-sm text-paper-500">Games you generate are saved here automatically.</p>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {games.map(saved => (
+              <Card key={saved.id} variant="default" className="p-5">
+                <div className="flex flex-col md:flex-row md:items-center gap-4">
+                  <div className="flex-1 min-w-0">
+                    {renamingId === saved.id ? (
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          value={draftName}
+                          onChange={(e) => setDraftName(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') confirmRename(saved.id);
+                            if (e.key === 'Escape') setRenamingId(null);
+                          }}
+                          className="flex-1 h-9 px-3 rounded-lg border-2 border-paper-200 focus:border-paper-900 focus:ring-0 text-sm"
+                          autoFocus
+                        />
+                        <Button onClick={() => confirmRename(saved.id)} size="sm" variant="ghost" aria-label="Save name">
+                          <Check className="w-4 h-4" />
+                        </Button>
+                        <Button onClick={() => setRenamingId(null)} size="sm" variant="ghost" aria-label="Cancel rename">
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <p className="font-semibold text-paper-900 truncate">{saved.name}</p>
+                    )}
+                    <div className="flex items-center gap-2 mt-1 text-xs text-paper-500">
+                      <Badge variant={saved.game.isEngine ? "purple" : "yellow"}>
+                        {saved.game.isEngine ? "AI Game" : "Quiz"}
+                      </Badge>
+                      <span>{saved.game.questions.length} questions</span>
+                      <span>•</span>
+                      <span>Updated {new Date(saved.updatedAt).toLocaleDateString()}</span>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-1">
+                    <Button onClick={() => startRename(saved)} size="sm" variant="ghost" title="Rename">
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button onClick={() => runAction(() => gameLibrary.duplicate(saved.id))} size="sm" variant="ghost" title="Duplicate">
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                    <Button onClick={() => handleDelete(saved)} size="sm" variant="ghost" title="Delete" className="text-red-500 hover:bg-red-50 hover:text-red-700">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                    <Button onClick={() => onEdit(saved)} size="sm" variant="outline" className="ml-2">
+                      Edit
+                    </Button>
+                    <Button onClick={() => onHost(saved)} size="sm" variant="purple" className="ml-2">
+                      <Play className="w-4 h-4 mr-1" /> Host
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+};
@@ -1,77 +1,129 @@
 import React, { useState, useEffect } from 'react';
-import { GameData } from '../types';
+import { SessionClient } from '../services/session';
+import { AnswerResult, GameSummary, LeaderboardEntry, PublicQuestion, ServerMessageOf } from '../services/session-protocol';
+import { QuestionAnswer } from '../types';
+import { AnswerInput, CorrectAnswer } from './AnswerInput';
+import { applyRoundResult, correctAnswerRewards, initialEngineState } from '../utils/game-rules';
 import { Button } from './ui/button';
 import { Card } from './ui/card';
 import { Badge } from './ui/badge';
 import { GameCode } from './ui/game-code';
-import { Users, Trophy, Check, Gamepad2, Home, Clock, Zap, Heart, Shield, Map, Star, ArrowRight, Lightbulb } from 'lucide-react';
+import { MediaImage } from './ui/media-image';
+import { RichText } from './ui/rich-text';
+import { Users, Trophy, Check, Gamepad2, Home, Clock, Zap, Heart, Shield, Map, Star, ArrowRight, Lightbulb, Loader2, Coins, Flag, BookOpen } from 'lucide-react';
 
 interface GamePlayProps {
-  gameData: GameData;
+  session: SessionClient;
+  game: GameSummary;
+  playerId: string;
   onExit: () => void;
 }
 
 type Phase = "lobby" | "question" | "submitted" | "results" | "complete";
 
-export const GamePlay: React.FC<GamePlayProps> = ({ gameData, onExit }) => {
+export const GamePlay: React.FC<GamePlayProps> = ({ session, game, playerId, onExit }) => {
   // State
   const [phase, setPhase] = useState<Phase>("lobby");
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [selectedOption, setSelectedOption] = useState<number | null>(null);
+  const [currentQuestion, setCurrentQuestion] = useState<PublicQuestion | null>(null);
   const [score, setScore] = useState(0);
-  const [streak, setStreak] = useState(0);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const [reveal, setReveal] = useState<ServerMessageOf<'reveal'> | null>(null);
+  const [hostLeft, setHostLeft] = useState(false);
   
-  // Engine specific state (visual fluff)
-  const [engineHealth, setEngineHealth] = useState(100);
-  const [engineEnergy, setEngineEnergy] = useState(0);
+  // Engine mechanics, driven by the rules the game was generated with
+  const rules = game.rules;
+  const [engine, setEngine] = useState(() => initialEngineState(rules));
+  const rewards = correctAnswerRewards(rules);
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
 
-  const currentQuestion = gameData.questions[currentQuestionIndex];
-  const isLastQuestion = currentQuestionIndex >= gameData.questions.length - 1;
-  const isEngine = gameData.isEngine;
+  const isEngine = game.isEngine;
+  const timeUp = !!rules?.timer && secondsLeft === 0;
 
   // --- Game Logic ---
 
-  // Start Game
-  const handleStart = () => {
-    setPhase("question");
-  };
+  // The host drives the pace: questions, reveals and the end of the game arrive from the session server.
+  useEffect(() => {
+    const offQuestion = session.on('question_start', (message) => {
+      setCurrentQuestionIndex(message.index);
+      setCurrentQuestion(message.question);
+      setDeadline(Date.now() + message.timeLimitMs);
+      setReveal(null);
+      setPhase("question");
+    });
+    const offGameOver = session.on('game_over', (message) => {
+      setLeaderboard(message.leaderboard);
+      setPhase("complete");
+    });
+    const offClosed = session.on('room_closed', () => setHostLeft(true));
+    return () => {
+      offQuestion();
+      offGameOver();
+      offClosed();
+    };
+  }, [session]);
+
+  // Scores are authoritative on the server; the reveal carries this player's result.
+  useEffect(() => {
+    return session.on('reveal', (message) => {
+      if (message.index !== currentQuestionIndex) return;
+
+      const result: AnswerResult | undefined = message.result;
+      setReveal(message);
+      if (result) setScore(result.score);
+      setEngine(state => applyRoundResult(rules, state, !!result?.correct));
+      setDeadline(null);
+      setPhase("results");
+    });
+  }, [session, currentQuestionIndex, rules]);
+
+  // Countdown for the timer mechanic; the server rejects answers after the deadline
+  useEffect(() => {
+    if (!rules?.timer || deadline === null) {
+      setSecondsLeft(null);
+      return;
+    }
+    const tick = () => setSecondsLeft(Math.max(0, Math.ceil((deadline - Date.now()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 250);
+    return () => clearInterval(interval);
+  }, [deadline, rules]);
 
   // Handle Answer Submission
-  const handleAnswer = (index: number) => {
+  const handleAnswer = (answer: QuestionAnswer) => {
     if (phase !== "question") return;
     
-    setSelectedOption(index);
     setPhase("submitted");
-
-    // Calculate score
-    const isCorrect = index === currentQuestion.correctIndex;
-    if (isCorrect) {
-        setScore(s => s + 100 + (streak * 10));
-        setStreak(s => s + 1);
-        if (isEngine) setEngineEnergy(e => Math.min(e + 25, 100));
-    } else {
-        setStreak(0);
-        if (isEngine) setEngineHealth(h => Math.max(h - 15, 0));
-    }
-
-    // Short delay before showing results
-    setTimeout(() => {
-        setPhase("results");
-    }, 1000);
+    session.send({ type: 'answer_submit', questionIndex: currentQuestionIndex, answer });
   };
 
-  const handleNextQuestion = () => {
-    if (isLastQuestion) {
-        setPhase("complete");
-    } else {
-        setCurrentQuestionIndex(prev => prev + 1);
-        setSelectedOption(null);
-        setPhase("question");
-    }
+  const handleExit = () => {
+    session.close();
+    onExit();
   };
 
   // --- Renders ---
 
+  // The session is gone whatever the student was looking at; a finished game keeps its leaderboard
+  if (hostLeft && phase !== "complete") {
+    return (
+      <main className="min-h-screen bg-background flex items-center justify-center p-4">
+        <div className="w-full max-w-md mx-auto">
+          <Card variant="elevated" className="p-8 animate-slide-up text-center">
+            <h1 className="font-display text-2xl font-bold text-paper-900 mb-2">The host ended the session</h1>
+            <p className="text-paper-600 mb-6">
+              {phase === "lobby" ? <>The game <span className="font-bold text-paper-900">{game.title}</span> did not start.</> : <>Your score: <span className="font-mono font-bold text-paper-900">{score}</span></>}
+            </p>
+            <Button onClick={handleExit} variant="outline" size="lg" className="w-full">
+              <Home className="w-4 h-4 mr-2" /> Back to Home
+            </Button>
+          </Card>
+        </div>
+      </main>
+    );
+  }
+
   // 1. Lobby
   if (phase === "lobby") {
     return (
@@ -79,23 +131,24 @@ export const GamePlay: React.FC<GamePlayProps> = ({ gameData, onExit }) => {
         <div className="w-full max-w-md mx-auto">
           <div className="text-center mb-8">
             <p className="text-sm text-paper-500 mb-2 uppercase tracking-wider font-medium">Game Code</p>
-            <GameCode code={gameData.code} size="md" />
+            <GameCode code={game.code} size="md" />
           </div>
 
           <Card variant="elevated" className="p-8 mb-6 animate-slide-up text-center">
             <p className="text-xl mb-2 text-paper-700">
-              Playing <span className="font-bold text-paper-900">{gameData.title}</span>
+              Playing <span className="font-bold text-paper-900">{game.title}</span>
             </p>
             <div className={`mb-4 p-4 rounded-xl border-2 ${isEngine ? 'bg-highlight-purple/10 border-highlight-purple/30' : 'bg-highlight-yellow/10 border-highlight-yellow/30'}`}>
                 <div className="flex items-center justify-center gap-2 mb-2">
                   {isEngine ? <Gamepad2 className="w-5 h-5 text-highlight-purple" /> : <Star className="w-5 h-5 text-highlight-yellow" />}
                   <span className="font-semibold text-paper-900">{isEngine ? "Adventure Mode" : "Quiz Mode"}</span>
                 </div>
-                <p className="text-xs text-paper-500 line-clamp-2">{gameData.description}</p>
+                <p className="text-xs text-paper-500 line-clamp-2">{game.description}</p>
+            </div>
+            <div className="flex items-center justify-center gap-2 text-paper-500">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                <span className="text-sm font-medium">Waiting for your teacher to start...</span>
             </div>
-            <Button onClick={handleStart} variant="yellow" size="lg" className="w-full">
-                Start Game <ArrowRight className="w-4 h-4 ml-2" />
-            </Button>
           </Card>
         </div>
       </main>
@@ -118,9 +171,26 @@ export const GamePlay: React.FC<GamePlayProps> = ({ gameData, onExit }) => {
             <p className="text-paper-500 mb-3">Final Score</p>
             <p className="text-6xl font-bold text-paper-900 font-display animate-score-pop">{score}</p>
           </Card>
+
+          {leaderboard.length > 0 && (
+            <Card variant="default" className="p-4 mb-6 animate-slide-up stagger-2">
+              <div className="flex items-center gap-2 mb-3 text-paper-500">
+                <Trophy className="w-4 h-4" />
+                <span className="text-xs font-bold uppercase tracking-wider">Class Leaderboard</span>
+              </div>
+              <div className="space-y-2">
+                {leaderboard.slice(0, 5).map((entry, i) => (
+                  <div key={entry.playerId} className={`flex items-center justify-between p-2 rounded-lg ${entry.playerId === playerId ? "bg-highlight-yellow/20 font-bold" : ""}`}>
+                    <span className="text-paper-900">#{i + 1} {entry.name}</span>
+                    <span className="font-mono text-paper-700">{entry.score}</span>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          )}
           
            <div className="flex justify-center">
-              <Button onClick={onExit} variant="outline" className="w-full">
+              <Button onClick={handleExit} variant="outline" className="w-full">
                 <Home className="w-4 h-4 mr-2" /> Back to Home
               </Button>
             </div>
@@ -129,6 +199,10 @@ export const GamePlay: React.FC<GamePlayProps> = ({ gameData, onExit }) => {
     );
   }
 
+  if (!currentQuestion) return null;
+
+  const isCorrect = !!reveal?.result?.correct;
+
   // 3. Question / Submitted / Results
   return (
     <main className="min-h-screen bg-background flex flex-col items-center">
@@ -136,17 +210,33 @@ export const GamePlay: React.FC<GamePlayProps> = ({ gameData, onExit }) => {
         <div className="w-full bg-white border-b border-paper-200 p-4 sticky top-0 z-10 shadow-sm">
             <div className="max-w-4xl mx-auto flex items-center justify-between">
                 <div className="flex items-center gap-3">
-                     <span className="text-sm font-mono text-paper-500">Q{currentQuestionIndex + 1}/{gameData.questions.length}</span>
-                     {isEngine && (
-                         <div className="hidden sm:flex items-center gap-2">
-                             <div className="flex items-center gap-1 text-red-500">
-                                 <Heart className="w-4 h-4 fill-current" />
-                                 <span className="text-sm font-bold">{engineHealth}%</span>
-                             </div>
-                             <div className="flex items-center gap-1 text-highlight-purple">
-                                 <Zap className="w-4 h-4 fill-current" />
-                                 <span className="text-sm font-bold">{engineEnergy}%</span>
-                             </div>
+                     <span className="text-sm font-mono text-paper-500">Q{currentQuestionIndex + 1}/{game.questionCount}</span>
+                     {rules && (
+                         <div className="hidden sm:flex items-center gap-3">
+                             {rules.combat && (
+                                 <div className="flex items-center gap-1 text-red-500" title="Health">
+                                     <Heart className="w-4 h-4 fill-current" />
+                                     <span className="text-sm font-bold">{engine.health}/{rules.combat.startingHealth}</span>
+                                 </div>
+                             )}
+                             {rules.economy && (
+                                 <div className="flex items-center gap-1 text-highlight-purple" title={rules.economy.currencyName}>
+                                     <Coins className="w-4 h-4" />
+                                     <span className="text-sm font-bold">{engine.balance} {rules.economy.currencyName}</span>
+                                 </div>
+                             )}
+                             {rules.movement && (
+                                 <div className="flex items-center gap-1 text-highlight-blue" title="Progress">
+                                     <Flag className="w-4 h-4" />
+                                     <span className="text-sm font-bold">Zone {engine.zone}/{rules.movement.zones}</span>
+                                 </div>
+                             )}
+                         </div>
+                     )}
+                     {secondsLeft !== null && phase !== "results" && (
+                         <div className={`flex items-center gap-1 ${secondsLeft <= 5 ? "text-red-600" : "text-paper-600"}`}>
+                             <Clock className="w-4 h-4" />
+                             <span className="text-sm font-mono font-bold">{secondsLeft}s</span>
                          </div>
                      )}
                 </div>
@@ -164,16 +254,16 @@ export const GamePlay: React.FC<GamePlayProps> = ({ gameData, onExit }) => {
                 <div className="w-full h-48 sm:h-64 mb-6 rounded-2xl bg-paper-900 overflow-hidden relative border-4 border-paper-300 shadow-inner flex items-center justify-center">
                     <div className="absolute inset-0 opacity-20 bg-[url('https://www.transparenttextures.com/patterns/cubes.png')]"></div>
                     <div className="absolute top-4 left-4 p-2 bg-black/50 rounded-lg text-white text-xs font-mono">
-                        LOCATION: SECTOR {currentQuestionIndex + 1}
+                        LOCATION: SECTOR {rules?.movement ? engine.zone + 1 : currentQuestionIndex + 1}
                     </div>
                     <div className="relative z-10 text-center animate-bounce-subtle">
-                         {gameData.theme === "history" && <Map className="w-16 h-16 text-highlight-yellow mx-auto mb-2" />}
-                         {gameData.theme === "science" && <Zap className="w-16 h-16 text-highlight-blue mx-auto mb-2" />}
-                         {gameData.theme === "combat" && <Shield className="w-16 h-16 text-highlight-pink mx-auto mb-2" />}
-                         {!["history", "science", "combat"].includes(gameData.theme) && <Gamepad2 className="w-16 h-16 text-highlight-purple mx-auto mb-2" />}
+                         {game.theme === "history" && <Map className="w-16 h-16 text-highlight-yellow mx-auto mb-2" />}
+                         {game.theme === "science" && <Zap className="w-16 h-16 text-highlight-blue mx-auto mb-2" />}
+                         {game.theme === "combat" && <Shield className="w-16 h-16 text-highlight-pink mx-auto mb-2" />}
+                         {!["history", "science", "combat"].includes(game.theme) && <Gamepad2 className="w-16 h-16 text-highlight-purple mx-auto mb-2" />}
                          
                          <div className="bg-white/10 backdrop-blur-sm px-4 py-1 rounded-full text-white text-sm font-bold border border-white/20">
-                            {phase === "submitted" ? "PROCESSING..." : "AWAITING INPUT"}
+                            {phase === "submitted" ? "PROCESSING..." : timeUp ? "TIME'S UP" : "AWAITING INPUT"}
                          </div>
                     </div>
                 </div>
@@ -182,23 +272,31 @@ export const GamePlay: React.FC<GamePlayProps> = ({ gameData, onExit }) => {
             {/* Results View */}
             {phase === "results" && (
                 <div className="w-full max-w-md mx-auto animate-scale-in pt-8">
-                    <Card variant={selectedOption === currentQuestion.correctIndex ? "green" : "pink"} className="p-6 mb-6 text-center shadow-xl">
+                    <Card variant={isCorrect ? "green" : "pink"} className="p-6 mb-6 text-center shadow-xl">
                         <div className="flex items-center justify-center gap-2 mb-4">
-                            {selectedOption === currentQuestion.correctIndex ? (
+                            {isCorrect ? (
                                 <Check className="w-8 h-8 text-green-600" />
                             ) : (
                                 <div className="relative">
                                     <span className="text-4xl text-red-600">✗</span>
                                 </div>
                             )}
-                            <span className={`text-2xl font-bold ${selectedOption === currentQuestion.correctIndex ? "text-green-700" : "text-red-700"}`}>
-                                {selectedOption === currentQuestion.correctIndex ? "Correct!" : "Incorrect"}
+                            <span className={`text-2xl font-bold ${isCorrect ? "text-green-700" : "text-red-700"}`}>
+                                {isCorrect ? "Correct!" : "Incorrect"}
                             </span>
                         </div>
+
+                        {reveal?.result && (
+                            <div className="flex items-center justify-center gap-2 mb-4">
+                                <Badge variant={isCorrect ? "green" : "default"}>+{reveal.result.points} XP</Badge>
+                                {reveal.result.streak > 1 && <Badge variant="purple">{reveal.result.streak} in a row</Badge>}
+                                {!reveal.result.answered && <Badge variant="pink">No answer</Badge>}
+                            </div>
+                        )}
                         
                         <div className="mb-6">
                             <p className="text-xs uppercase tracking-widest text-paper-500 font-bold mb-1">Correct Answer</p>
-                            <p className="text-lg font-bold text-paper-900">{currentQuestion.options[currentQuestion.correctIndex]}</p>
+                            {reveal && <CorrectAnswer question={currentQuestion} answer={reveal.correctAnswer} />}
                         </div>
 
                         <div className="bg-white/60 rounded-xl p-4 text-left border-l-4 border-highlight-yellow shadow-sm">
@@ -206,15 +304,27 @@ export const GamePlay: React.FC<GamePlayProps> = ({ gameData, onExit }) => {
                                 <Lightbulb className="w-4 h-4 text-yellow-600 fill-yellow-600" />
                                 <span className="text-xs font-bold uppercase tracking-wider text-yellow-700">Learning Context</span>
                             </div>
-                            <p className="text-paper-800 text-sm leading-relaxed">
-                                {currentQuestion.explanation}
-                            </p>
+                            <RichText text={reveal?.explanation || ""} className="block text-paper-800 text-sm leading-relaxed" />
+                            {reveal?.source && (
+                                <div className="mt-3 pt-3 border-t border-paper-200">
+                                    <div className="flex items-center gap-2 mb-1">
+                                        <BookOpen className="w-3 h-3 text-paper-500" />
+                                        <span className="text-xs font-bold uppercase tracking-wider text-paper-500">
+                                            {reveal.source.ref
+                                              ? `Go back to ${reveal.source.ref}${reveal.source.material ? ` in ${reveal.source.material}` : ""}`
+                                              : reveal.source.material ? `From ${reveal.source.material}` : "From the material"}
+                                        </span>
+                                    </div>
+                                    <p className="text-paper-600 text-sm italic">“{reveal.source.quote}”</p>
+                                </div>
+                            )}
                         </div>
                     </Card>
                     
-                    <Button onClick={handleNextQuestion} variant="default" size="lg" className="w-full">
-                        {isLastQuestion ? "Finish Game" : "Next Question"} <ArrowRight className="w-4 h-4 ml-2" />
-                    </Button>
+                    <div className="flex items-center justify-center gap-2 text-paper-500">
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        <span className="text-sm font-medium">Waiting for the next question...</span>
+                    </div>
                 </div>
             )}
 
@@ -224,42 +334,23 @@ export const GamePlay: React.FC<GamePlayProps> = ({ gameData, onExit }) => {
                     <Card variant="elevated" className="p-6 md:p-8 mb-6 animate-slide-up relative overflow-hidden">
                         <div className="flex items-center gap-2 mb-4">
                             <Badge variant="blue" className="opacity-90">Concept: {currentQuestion.concept}</Badge>
-                            {isEngine && <Badge variant="purple" className="opacity-90">XP: +100</Badge>}
+                            {rewards.length > 0 && <Badge variant="purple" className="opacity-90">Correct: {rewards.join(" · ")}</Badge>}
                         </div>
                         
                         <h3 className="text-xl md:text-2xl font-bold text-paper-900 leading-snug relative z-10">
-                            {currentQuestion.text}
+                            <RichText text={currentQuestion.text} />
                         </h3>
+                        {currentQuestion.image && (
+                            <MediaImage src={currentQuestion.image.src} alt={currentQuestion.image.alt} className="mt-4 mx-auto max-h-72 w-auto" />
+                        )}
                     </Card>
 
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3 animate-slide-up stagger-1">
-                        {currentQuestion.options.map((option, i) => (
-                            <button
-                                key={i}
-                                disabled={phase === "submitted"}
-                                onClick={() => handleAnswer(i)}
-                                className={`
-                                    w-full p-6 rounded-xl border-2 text-left transition-all relative overflow-hidden group
-                                    ${phase === "submitted" 
-                                        ? i === selectedOption 
-                                            ? "bg-paper-100 border-paper-400" 
-                                            : "opacity-40 border-paper-200 grayscale"
-                                        : "bg-white border-paper-200 hover:border-highlight-purple hover:shadow-paper-md active:scale-[0.98]"
-                                    }
-                                `}
-                            >
-                                <div className="flex items-center">
-                                    <div className={`
-                                        w-8 h-8 rounded-lg flex items-center justify-center text-sm font-bold mr-3 transition-colors
-                                        ${phase === "submitted" && i === selectedOption ? "bg-paper-800 text-white" : "bg-paper-100 text-paper-600 group-hover:bg-highlight-purple group-hover:text-white"}
-                                    `}>
-                                        {String.fromCharCode(65 + i)}
-                                    </div>
-                                    <span className="font-medium text-paper-900 text-lg">{option}</span>
-                                </div>
-                            </button>
-                        ))}
-                    </div>
+                    <AnswerInput
+                        key={currentQuestionIndex}
+                        question={currentQuestion}
+                        submitted={phase === "submitted" || timeUp}
+                        onSubmit={handleAnswer}
+                    />
                 </div>
             )}
         </div>
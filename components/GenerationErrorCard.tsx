@@ -0,0 +1,67 @@
+import React from "react";
+import { AlertCircle } from "lucide-react";
+import { Card } from "./ui/card";
+import { LLMError, LLMErrorKind } from "../services/llm";
+
+// What a teacher can do about each kind of failure
+export const ERROR_GUIDANCE: Record<LLMErrorKind, { title: string; advice: string }> = {
+  auth: {
+    title: "The AI service did not accept the API key",
+    advice: "Check that GEMINI_API_KEY (or LLM_API_KEY for another provider) is set in .env.local, then restart Teachify."
+  },
+  quota: {
+    title: "The AI usage limit has been reached",
+    advice: "Wait a minute and try again. If it keeps happening, the quota for this API key is used up for today."
+  },
+  safety: {
+    title: "The AI's safety filters blocked this content",
+    advice: "Remove or reword sensitive passages, such as graphic descriptions, and try again."
+  },
+  content_too_long: {
+    title: "The material is too long for the AI",
+    advice: "Select fewer pages, remove a source or paste a summary instead."
+  },
+  timeout: {
+    title: "The AI took too long to answer",
+    advice: "Try fewer questions or less material, or try again when the service is less busy."
+  },
+  network: {
+    title: "Could not reach the AI service",
+    advice: "Check your internet connection. With a local model, make sure its server is running."
+  },
+  invalid_response: {
+    title: "The AI's answer could not be turned into a game",
+    advice: "Try again. A simpler question type mix or a more specific learning objective often helps."
+  },
+  cancelled: {
+    title: "Generation was cancelled",
+    advice: "Start again whenever you are ready."
+  },
+  unknown: {
+    title: "Something went wrong while generating",
+    advice: "Try again. If it keeps failing, try a shorter document or paste a summary."
+  }
+};
+
+export const GenerationErrorCard: React.FC<{ error: LLMError }> = ({ error }) => {
+  const guidance = ERROR_GUIDANCE[error.kind];
+  return (
+    <Card variant="pink" className="mt-6 p-4 flex items-start gap-3">
+      <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-red-700 font-bold mb-1">{guidance.title}</p>
+        <p className="text-sm text-red-700">{guidance.advice}</p>
+        {error.attempts.length > 0 && (
+          <details className="mt-2 text-xs text-red-700/80">
+            <summary className="cursor-pointer">What was tried</summary>
+            <ul className="mt-1 space-y-0.5">
+              {error.attempts.map((attempt, i) => (
+                <li key={i} className="break-words"><span className="font-semibold">{attempt.label}:</span> {attempt.message}</li>
+              ))}
+            </ul>
+          </details>
+        )}
+      </div>
+    </Card>
+  );
+};
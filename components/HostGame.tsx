@@ -1,31 +1,118 @@
-import React, { useState, useEffect, useRef } from "react";
-import { Mic, Home, Play, StopCircle, Sparkles, Volume2, Trophy, Loader2, User, Check, Crown } from "lucide-react";
+import React, { useState, useEffect, useRef, useMemo } from "react";
+import { Mic, Home, Play, StopCircle, Sparkles, Volume2, Trophy, Loader2, User, Check, Crown, SkipForward } from "lucide-react";
 import { Button } from "./ui/button";
 import { Badge } from "./ui/badge";
-import { GameData } from "../types";
-import { GoogleGenAI, LiveServerMessage, Modality, FunctionDeclaration, Type } from "@google/genai";
+import { GameData, MediaAsset, Question } from "../types";
+import { shuffle } from "../utils/question-kinds";
+import { blobToDataUrl, questionMediaIds } from "../utils/media";
+import { connectSession, SessionClient } from "../services/session";
+import { LeaderboardEntry, PlayerInfo, PublicImage } from "../services/session-protocol";
+import { MediaImage } from "./ui/media-image";
+import { RichText } from "./ui/rich-text";
+import { Type } from "@google/genai";
+import { llmProvider, LiveSession, LiveToolDeclaration } from "../services/llm";
 
 interface HostGameProps {
   gameData: GameData;
   onExit: () => void;
 }
 
-// --- Types for Simulation ---
-interface Player {
-  id: string;
-  name: string;
-  color: string;
-  score: number;
-  status: 'waiting' | 'thinking' | 'answered' | 'correct' | 'wrong';
-}
-
-const PLAYER_NAMES = ["Alex", "Jordan", "Taylor", "Casey", "Morgan", "Riley", "Jamie", "Dakota", "Quinn", "Avery", "Sam", "Charlie", "Reese", "Skyler", "Cameron"];
-const AVATAR_COLORS = [
-    "bg-red-500", "bg-orange-500", "bg-amber-500", 
-    "bg-green-500", "bg-emerald-500", "bg-teal-500",
-    "bg-cyan-500", "bg-blue-500", "bg-indigo-500", 
-    "bg-violet-500", "bg-purple-500", "bg-fuchsia-500", "bg-pink-500", "bg-rose-500"
-];
+// --- Answer Board ---
+
+const cardClass = (revealed: boolean, correct: boolean) => `group relative bg-slate-900/50 border-2 rounded-2xl p-6 transition-all duration-300 ${
+    !revealed
+        ? "border-slate-700 hover:border-purple-500/50"
+        : correct ? "border-green-500 bg-green-500/10" : "border-slate-800 opacity-40"
+}`;
+
+const letterClass = "absolute top-6 left-6 w-8 h-8 rounded-lg bg-slate-800 text-slate-300 font-bold flex items-center justify-center text-lg group-hover:bg-purple-600 group-hover:text-white transition-colors";
+
+// Students' devices get the images the questions show, as data URLs
+const publicImages = async (game: GameData): Promise<Record<string, PublicImage>> => {
+    const shown = new Set(game.questions.flatMap(questionMediaIds));
+    const entries = await Promise.all((game.media || [])
+        .filter(asset => shown.has(asset.id))
+        .map(async asset => [asset.id, { src: await blobToDataUrl(asset.blob), alt: asset.alt }] as const));
+    return Object.fromEntries(entries);
+};
+
+// What the class sees on the projector. Nothing that gives the answer away is
+// shown until the reveal; ordering and matching lists are shuffled until then.
+const HostAnswers: React.FC<{ question: Question; revealed: boolean; media: Map<string, MediaAsset> }> = ({ question, revealed, media }) => {
+    const shuffled = useMemo(() => {
+        if (question.kind === 'ordering') return shuffle(question.items);
+        if (question.kind === 'matching') return shuffle(question.pairs.map(p => p.right));
+        return [];
+    }, [question]);
+
+    switch (question.kind) {
+        case 'multiple_choice':
+        case 'true_false':
+        case 'multi_select': {
+            const isCorrect = (i: number) => question.kind === 'multi_select' ? question.correctIndices.includes(i) : question.correctIndex === i;
+            const optionImage = (i: number) => question.kind !== 'true_false' ? media.get(question.optionImages?.[i] || '') : undefined;
+            return (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {question.options.map((opt, i) => (
+                        <div key={i} className={cardClass(revealed, isCorrect(i))}>
+                            <div className={letterClass}>{String.fromCharCode(65 + i)}</div>
+                            <div className="pl-14 text-xl font-medium text-slate-200 group-hover:text-white">
+                                {optionImage(i) && <MediaImage src={optionImage(i)!.blob} alt={optionImage(i)!.alt} className="max-h-40 w-auto mb-2" />}
+                                <RichText text={opt} />
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            );
+        }
+        case 'ordering':
+            return (
+                <div className="max-w-3xl mx-auto space-y-3">
+                    {(revealed ? question.items : shuffled).map((item, i) => (
+                        <div key={item} className={cardClass(revealed, true)}>
+                            <div className={letterClass}>{revealed ? i + 1 : String.fromCharCode(65 + i)}</div>
+                            <RichText text={item} className="block pl-14 text-xl font-medium text-slate-200" />
+                        </div>
+                    ))}
+                </div>
+            );
+        case 'numeric':
+            return (
+                <div className="text-center text-3xl font-bold text-slate-300">
+                    {revealed
+                        ? <span className="text-green-400">{question.answer}{question.unit ? ` ${question.unit}` : ""}{question.tolerance ? ` (± ${question.tolerance})` : ""}</span>
+                        : `Type a number${question.unit ? ` in ${question.unit}` : ""}`}
+                </div>
+            );
+        case 'short_text':
+            return (
+                <div className="text-center text-3xl font-bold text-slate-300">
+                    {revealed
+                        ? <span className="text-green-400">{question.acceptedAnswers.join(" / ")}</span>
+                        : "Type your answer"}
+                </div>
+            );
+        case 'matching':
+            return (
+                <div className="grid grid-cols-2 gap-6 max-w-4xl mx-auto">
+                    <div className="space-y-3">
+                        {question.pairs.map((pair, i) => (
+                            <div key={i} className={cardClass(revealed, true)}>
+                                <RichText text={pair.left} className="block text-xl font-medium text-slate-200" />
+                            </div>
+                        ))}
+                    </div>
+                    <div className="space-y-3">
+                        {(revealed ? question.pairs.map(p => p.right) : shuffled).map((right, i) => (
+                            <div key={i} className={cardClass(revealed, true)}>
+                                <RichText text={right} className="block text-xl font-medium text-slate-200" />
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            );
+    }
+};
 
 // --- Audio Utils ---
 
@@ -65,12 +152,15 @@ export const HostGame: React.FC<HostGameProps> = ({ gameData, onExit }) => {
   const [log, setLog] = useState<string[]>([]);
   const [isSpeaking, setIsSpeaking] = useState(false);
 
-  // Simulated Player State
-  const [players, setPlayers] = useState<Player[]>([]);
-  const [lobbyCode] = useState(() => Math.random().toString(36).substring(2, 8).toUpperCase());
+  // Live Player State (driven by the session server)
+  const [players, setPlayers] = useState<PlayerInfo[]>([]);
+  // Issued by the session server's game registry when the room opens
+  const [lobbyCode, setLobbyCode] = useState("");
+  const sessionClientRef = useRef<SessionClient | null>(null);
+  const [revealed, setRevealed] = useState(false);
 
   // Refs for audio handling
-  const sessionRef = useRef<any>(null);
+  const sessionRef = useRef<LiveSession | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const inputSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const processorRef = useRef<ScriptProcessorNode | null>(null);
@@ -79,65 +169,58 @@ export const HostGame: React.FC<HostGameProps> = ({ gameData, onExit }) => {
   const nextStartTimeRef = useRef<number>(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
 
-  // --- Simulation Effects ---
+  // --- Session Effects ---
 
-  // 1. Lobby Joining Simulation
+  // Mirror the host's question index to every connected student. Grading and
+  // scores come back from the session server.
   useEffect(() => {
-    if (active && currentQuestionIndex === -1) {
-        const interval = setInterval(() => {
-            if (players.length < 15 && Math.random() > 0.4) {
-                const name = PLAYER_NAMES[Math.floor(Math.random() * PLAYER_NAMES.length)];
-                // Check if name exists
-                if (!players.find(p => p.name === name)) {
-                    const color = AVATAR_COLORS[Math.floor(Math.random() * AVATAR_COLORS.length)];
-                    const newPlayer: Player = {
-                        id: Math.random().toString(),
-                        name,
-                        color,
-                        score: 0,
-                        status: 'waiting'
-                    };
-                    setPlayers(prev => [...prev, newPlayer]);
-                }
-            }
-        }, 2000);
-        return () => clearInterval(interval);
-    }
-  }, [active, currentQuestionIndex, players]);
+    const session = sessionClientRef.current;
+    if (!session) return;
 
-  // 2. Answering Simulation
-  useEffect(() => {
-    if (active && currentQuestionIndex >= 0) {
-        // Reset statuses when question starts
-        setPlayers(prev => prev.map(p => ({ ...p, status: 'thinking' })));
-
-        const interval = setInterval(() => {
-            setPlayers(prev => prev.map(p => {
-                if (p.status === 'thinking' && Math.random() > 0.85) {
-                    return { ...p, status: 'answered' };
-                }
-                return p;
-            }));
-        }, 800);
-        return () => clearInterval(interval);
+    setRevealed(false);
+    if (currentQuestionIndex >= 0 && gameData.questions[currentQuestionIndex]) {
+      session.send({ type: 'question_start', index: currentQuestionIndex });
+    }
+    if (currentQuestionIndex === -2) {
+      session.send({ type: 'game_over' });
     }
-  }, [active, currentQuestionIndex]);
-
-  // 3. Scoring Simulation (on question change/end)
-  useEffect(() => {
-      if (currentQuestionIndex === -2) {
-          // Game Over - Finalize scores randomly for simulation
-          setPlayers(prev => prev.map(p => ({
-              ...p,
-              score: Math.floor(Math.random() * 5000) + 1000
-          })).sort((a, b) => b.score - a.score));
-      }
   }, [currentQuestionIndex]);
 
+  const openRoom = async () => {
+    const session = await connectSession();
+    session.on('players', (message) => setPlayers(message.players));
+    session.on('reveal', (message) => setRevealed(true));
+    session.on('game_over', (message) => {
+      setPlayers(message.leaderboard.map((entry: LeaderboardEntry) => ({
+        id: entry.playerId,
+        name: entry.name,
+        color: entry.color,
+        score: entry.score,
+        streak: 0,
+        status: 'waiting'
+      })));
+    });
+    // The source material and any images no question shows stay in the teacher's browser
+    const created = await session.request({
+      type: 'host_create',
+      game: { ...gameData, generation: undefined, media: undefined },
+      images: await publicImages(gameData)
+    }, ['room_created']);
+    sessionClientRef.current = session;
+    setLobbyCode(created.code);
+    return created.code;
+  };
+
+  const revealAnswers = () => {
+    sessionClientRef.current?.send({ type: 'reveal', index: currentQuestionIndex });
+  };
+
+  // --- AI Host Setup ---
 
-  // --- Gemini Setup ---
+  // Without a realtime voice model the teacher steps through the questions by hand
+  const aiHost = !!llmProvider.connectLive;
 
-  const updateGameStateFunc: FunctionDeclaration = {
+  const updateGameStateFunc: LiveToolDeclaration = {
     name: 'updateGameState',
     description: 'Update the game screen to show the current question or results.',
     parameters: {
@@ -152,9 +235,35 @@ export const HostGame: React.FC<HostGameProps> = ({ gameData, onExit }) => {
     },
   };
 
+  const playAudio = async (outputCtx: AudioContext, audioData: string) => {
+    setIsSpeaking(true);
+    const audioBuffer = await outputCtx.decodeAudioData(base64ToUint8Array(audioData).buffer);
+    
+    const source = outputCtx.createBufferSource();
+    source.buffer = audioBuffer;
+    source.connect(outputCtx.destination);
+    
+    const now = outputCtx.currentTime;
+    const startTime = Math.max(now, nextStartTimeRef.current);
+    source.start(startTime);
+    nextStartTimeRef.current = startTime + audioBuffer.duration;
+    
+    source.onended = () => {
+        sourcesRef.current.delete(source);
+        if (sourcesRef.current.size === 0) setIsSpeaking(false);
+    };
+    sourcesRef.current.add(source);
+  };
+
   const startLiveSession = async () => {
     try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+        const code = await openRoom();
+
+        if (!llmProvider.connectLive) {
+            setLog(p => [...p, `${llmProvider.label} has no voice host; running in manual mode.`]);
+            setActive(true);
+            return;
+        }
         
         // Initialize Audio Contexts
         const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
@@ -172,75 +281,35 @@ export const HostGame: React.FC<HostGameProps> = ({ gameData, onExit }) => {
         
         const outputCtx = new AudioContextClass({ sampleRate: 24000 });
         
-        const sessionPromise = ai.live.connect({
-            model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-            callbacks: {
-                onopen: () => {
-                    setLog(p => [...p, "Connected to Gemini Live..."]);
-                    setActive(true);
-                },
-                onmessage: async (message: LiveServerMessage) => {
-                    const audioData = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-                    if (audioData) {
-                        setIsSpeaking(true);
-                        const audioBuffer = await outputCtx.decodeAudioData(base64ToUint8Array(audioData).buffer);
-                        
-                        const source = outputCtx.createBufferSource();
-                        source.buffer = audioBuffer;
-                        source.connect(outputCtx.destination);
-                        
-                        const now = outputCtx.currentTime;
-                        const startTime = Math.max(now, nextStartTimeRef.current);
-                        source.start(startTime);
-                        nextStartTimeRef.current = startTime + audioBuffer.duration;
-                        
-                        source.onended = () => {
-                            sourcesRef.current.delete(source);
-                            if (sourcesRef.current.size === 0) setIsSpeaking(false);
-                        };
-                        sourcesRef.current.add(source);
-                    }
-
-                    if (message.toolCall) {
-                        for (const fc of message.toolCall.functionCalls) {
-                            if (fc.name === 'updateGameState') {
-                                const idx = (fc.args as any).questionIndex;
-                                setCurrentQuestionIndex(idx);
-                                
-                                sessionPromise.then(session => session.sendToolResponse({
-                                    functionResponses: {
-                                        name: fc.name,
-                                        id: fc.id,
-                                        response: { result: "Game state updated successfully" }
-                                    }
-                                }));
-                            }
-                        }
-                    }
-                },
-                onclose: () => {
-                    setActive(false);
-                    setLog(p => [...p, "Session closed."]);
-                },
-                onerror: (e) => {
-                    console.error(e);
-                    setActive(false);
-                    alert("Live session error: " + (e as any).message);
+        const liveSession = await llmProvider.connectLive({
+            onOpen: () => {
+                setLog(p => [...p, `Connected to ${llmProvider.label} Live...`]);
+                setActive(true);
+            },
+            onAudio: (audioData) => { playAudio(outputCtx, audioData); },
+            onToolCall: (call) => {
+                if (call.name === 'updateGameState') {
+                    setCurrentQuestionIndex(call.args.questionIndex as number);
                 }
+                return { result: "Game state updated successfully" };
+            },
+            onClose: () => {
+                setActive(false);
+                setLog(p => [...p, "Session closed."]);
             },
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: {
-                    voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
-                },
-                tools: [{ functionDeclarations: [updateGameStateFunc] }],
-                systemInstruction: `You are an energetic game show host for a class. 
+            onError: (e) => {
+                console.error(e);
+                setActive(false);
+                alert("Live session error: " + e.message);
+            },
+            tools: [updateGameStateFunc],
+            systemInstruction: `You are an energetic game show host for a class. 
                 You are running a quiz titled "${gameData.title}".
                 The game mode is ${gameData.isEngine ? "an immersive adventure" : "a classic quiz"}.
                 Here is the quiz data: ${JSON.stringify(gameData.questions)}.
                 
                 Rules:
-                1. Start by welcoming the class and explaining the rules briefly. Mention players can join with code ${lobbyCode}.
+                1. Start by welcoming the class and explaining the rules briefly. Mention players can join with code ${code.split('').join(' ')}.
                 2. Read one question at a time clearly.
                 3. Wait for the class (via the teacher's mic) to shout the answer.
                 4. Listen to their answer. If they are right, celebrate! If wrong, explain why.
@@ -248,24 +317,14 @@ export const HostGame: React.FC<HostGameProps> = ({ gameData, onExit }) => {
                 6. When the game ends, call 'updateGameState' with -2.
                 7. Keep it fun, fast-paced, and encouraging!
                 `,
-            }
         });
 
-        sessionRef.current = sessionPromise;
+        sessionRef.current = liveSession;
 
         processorRef.current.onaudioprocess = (e) => {
             const inputData = e.inputBuffer.getChannelData(0);
             const pcm16 = float32To16BitPCM(inputData);
-            const base64 = arrayBufferToBase64(pcm16);
-            
-            sessionPromise.then(session => {
-                session.sendRealtimeInput({
-                    media: {
-                        mimeType: 'audio/pcm;rate=16000',
-                        data: base64
-                    }
-                });
-            });
+            liveSession.sendAudio(arrayBufferToBase64(pcm16));
         };
 
         inputSourceRef.current.connect(processorRef.current);
@@ -273,11 +332,23 @@ export const HostGame: React.FC<HostGameProps> = ({ gameData, onExit }) => {
 
     } catch (e) {
         console.error("Failed to start session", e);
-        alert("Failed to start Live session. Please ensure microphone permissions are granted and try again.");
+        sessionClientRef.current?.close();
+        sessionClientRef.current = null;
+        alert("Failed to start Live session. Please ensure the game server is running and microphone permissions are granted, then try again.");
     }
   };
 
+  // Manual mode: -1 is the lobby, -2 the end of the game
+  const advanceQuestion = () => {
+    const next = currentQuestionIndex + 1;
+    setCurrentQuestionIndex(next < gameData.questions.length ? next : -2);
+  };
+
   const stopSession = () => {
+    if (sessionRef.current) {
+        sessionRef.current.close();
+        sessionRef.current = null;
+    }
     if (processorRef.current) {
         processorRef.current.disconnect();
         processorRef.current = null;
@@ -290,6 +361,10 @@ export const HostGame: React.FC<HostGameProps> = ({ gameData, onExit }) => {
         audioContextRef.current.close();
         audioContextRef.current = null;
     }
+    if (sessionClientRef.current) {
+        sessionClientRef.current.close();
+        sessionClientRef.current = null;
+    }
     setActive(false);
     setIsSpeaking(false);
     // Force a cleanup of state without reload if possible, but reload ensures fresh audio context
@@ -297,6 +372,8 @@ export const HostGame: React.FC<HostGameProps> = ({ gameData, onExit }) => {
   };
 
   const currentQuestion = currentQuestionIndex >= 0 ? gameData.questions[currentQuestionIndex] : null;
+  const media = useMemo(() => new Map((gameData.media || []).map(asset => [asset.id, asset])), [gameData.media]);
+  const questionImage = currentQuestion?.image ? media.get(currentQuestion.image) : undefined;
   const answeredCount = players.filter(p => p.status === 'answered').length;
 
   return (
@@ -345,7 +422,9 @@ export const HostGame: React.FC<HostGameProps> = ({ gameData, onExit }) => {
                         Classroom Projector Mode
                     </h1>
                     <p className="text-xl text-slate-400">
-                        Connect your microphone. The AI Host will guide the class verbally.
+                        {aiHost
+                            ? "Connect your microphone. The AI Host will guide the class verbally."
+                            : "Guide the class yourself: start each question and reveal the answers from this screen."}
                     </p>
                 </div>
                 <div className="p-6 bg-slate-900/50 backdrop-blur-sm rounded-2xl border border-slate-800">
@@ -386,7 +465,7 @@ export const HostGame: React.FC<HostGameProps> = ({ gameData, onExit }) => {
                         </h2>
                     </div>
                     
-                    {/* Simulated Player Grid */}
+                    {/* Connected Player Grid */}
                     <div className="flex flex-wrap justify-center gap-4 max-w-4xl">
                         {players.map((p) => (
                             <div key={p.id} className="animate-scale-in flex items-center gap-2 bg-slate-800/80 backdrop-blur rounded-full px-4 py-2 border border-slate-700 shadow-lg">
@@ -398,10 +477,16 @@ export const HostGame: React.FC<HostGameProps> = ({ gameData, onExit }) => {
                         ))}
                     </div>
                     
-                    <div className="mt-12 flex items-center justify-center gap-3 text-xl text-slate-500 animate-pulse">
-                        <Loader2 className="w-6 h-6 animate-spin" />
-                        <span>AI Host is introducing the game...</span>
-                    </div>
+                    {aiHost ? (
+                        <div className="mt-12 flex items-center justify-center gap-3 text-xl text-slate-500 animate-pulse">
+                            <Loader2 className="w-6 h-6 animate-spin" />
+                            <span>AI Host is introducing the game...</span>
+                        </div>
+                    ) : (
+                        <Button onClick={advanceQuestion} variant="purple" size="lg" className="mt-12 px-8">
+                            <Play className="w-5 h-5 mr-2" /> Start First Question
+                        </Button>
+                    )}
                  </div>
                )}
 
@@ -427,30 +512,33 @@ export const HostGame: React.FC<HostGameProps> = ({ gameData, onExit }) => {
                             </div>
                         </div>
 
-                        <div className="min-h-[140px] flex items-center justify-center mb-8">
+                        <div className="min-h-[140px] flex flex-col items-center justify-center gap-6 mb-8">
                             <h2 className="text-3xl md:text-5xl font-bold text-center leading-tight drop-shadow-lg max-w-5xl">
-                                {currentQuestion.text}
+                                <RichText text={currentQuestion.text} />
                             </h2>
+                            {questionImage && <MediaImage src={questionImage.blob} alt={questionImage.alt} className="max-h-80 w-auto" />}
                         </div>
 
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                            {currentQuestion.options.map((opt, i) => (
-                                <div key={i} className="group relative bg-slate-900/50 border-2 border-slate-700 hover:border-purple-500/50 rounded-2xl p-6 transition-all duration-300">
-                                    <div className="absolute top-6 left-6 w-8 h-8 rounded-lg bg-slate-800 text-slate-300 font-bold flex items-center justify-center text-lg group-hover:bg-purple-600 group-hover:text-white transition-colors">
-                                        {String.fromCharCode(65 + i)}
-                                    </div>
-                                    <div className="pl-14 text-xl font-medium text-slate-200 group-hover:text-white">
-                                        {opt}
-                                    </div>
-                                </div>
-                            ))}
-                        </div>
+                        <HostAnswers question={currentQuestion} revealed={revealed} media={media} />
                     </div>
 
                     {/* Bottom: Live Player Interactions */}
                     <div className="mt-8 pt-6 border-t border-slate-800/50">
                         <div className="flex items-center justify-between mb-2">
                              <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Live Participation</h4>
+                             <div className="flex items-center gap-2">
+                                 {!revealed && (
+                                     <Button onClick={revealAnswers} size="sm" variant="ghost" className="text-slate-300 hover:text-white hover:bg-slate-800">
+                                         <Check className="w-4 h-4 mr-2" /> Reveal Answer
+                                     </Button>
+                                 )}
+                                 {!aiHost && (
+                                     <Button onClick={advanceQuestion} size="sm" variant="ghost" className="text-slate-300 hover:text-white hover:bg-slate-800">
+                                         <SkipForward className="w-4 h-4 mr-2" />
+                                         {currentQuestionIndex + 1 < gameData.questions.length ? "Next Question" : "Finish Game"}
+                                     </Button>
+                                 )}
+                             </div>
                         </div>
                         <div className="flex flex-wrap gap-2 justify-center">
                             {players.map((p) => (
@@ -458,10 +546,14 @@ export const HostGame: React.FC<HostGameProps> = ({ gameData, onExit }) => {
                                     key={p.id} 
                                     className={`
                                         w-10 h-10 rounded-full flex items-center justify-center transition-all duration-500
-                                        ${p.status === 'answered' ? `${p.color} scale-110 shadow-lg shadow-white/20` : 'bg-slate-800 opacity-50 scale-100'}
+                                        ${p.status === 'answered' ? `${p.color} scale-110 shadow-lg shadow-white/20` : ''}
+                                        ${p.status === 'correct' ? 'bg-green-500 scale-110' : ''}
+                                        ${p.status === 'wrong' ? 'bg-red-500/70' : ''}
+                                        ${p.status === 'thinking' || p.status === 'waiting' ? 'bg-slate-800 opacity-50 scale-100' : ''}
                                     `}
+                                    title={`${p.name}: ${p.score} XP`}
                                 >
-                                    {p.status === 'answered' ? (
+                                    {p.status === 'answered' || p.status === 'correct' ? (
                                         <Check className="w-5 h-5 text-white animate-bounce-subtle" />
                                     ) : (
                                         <User className="w-5 h-5 text-slate-500" />
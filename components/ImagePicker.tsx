@@ -0,0 +1,101 @@
+import React, { useRef, useState } from "react";
+import { ImagePlus, Loader2, Upload, X } from "lucide-react";
+import { MediaAsset } from "../types";
+import { MediaImage } from "./ui/media-image";
+
+interface ImagePickerProps {
+  value?: string | null;
+  media: MediaAsset[];
+  onChange: (id: string | undefined) => void;
+  // Stores an uploaded file as game media and resolves to its id
+  onUpload: (file: File) => Promise<string>;
+  size?: "sm" | "md";
+}
+
+// Attaches one of the game's images to a question or option, or uploads a new one.
+export const ImagePicker: React.FC<ImagePickerProps> = ({ value, media, onChange, onUpload, size = "md" }) => {
+  const [open, setOpen] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const selected = value ? media.find(asset => asset.id === value) : undefined;
+  const thumbClass = size === "sm" ? "w-10 h-10" : "w-20 h-20";
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setUploading(true);
+    setError(null);
+    try {
+      onChange(await onUpload(file));
+      setOpen(false);
+    } catch (err: any) {
+      setError(err.message || "Could not add this image.");
+    } finally {
+      setUploading(false);
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  if (selected) {
+    return (
+      <div className="relative flex-shrink-0 group" title={selected.alt}>
+        <MediaImage src={selected.blob} alt={selected.alt} className={`${thumbClass} bg-paper-100 border-2 border-paper-200`} />
+        <button
+          type="button"
+          onClick={() => onChange(undefined)}
+          className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-paper-900 text-white flex items-center justify-center opacity-80 hover:opacity-100"
+          title="Remove image"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative flex-shrink-0">
+      <button
+        type="button"
+        onClick={() => setOpen(o => !o)}
+        className={`${size === "sm" ? "w-10 h-10 justify-center" : "px-3 py-2 gap-2"} flex items-center rounded-lg text-xs font-medium bg-paper-100 text-paper-600 hover:bg-paper-200 hover:text-paper-900 transition-colors`}
+        title="Attach an image"
+      >
+        <ImagePlus className="w-4 h-4" />
+        {size === "md" && "Add image"}
+      </button>
+      {value && !selected && <p className="mt-1 text-xs text-red-700">Image {value} is missing</p>}
+
+      {open && (
+        <div className="absolute z-20 right-0 mt-2 w-72 p-3 rounded-xl bg-white border-2 border-paper-900 shadow-lg">
+          {media.length > 0 ? (
+            <div className="grid grid-cols-4 gap-2 max-h-48 overflow-y-auto mb-3">
+              {media.map(asset => (
+                <button
+                  key={asset.id}
+                  type="button"
+                  onClick={() => { onChange(asset.id); setOpen(false); }}
+                  className="rounded-lg border-2 border-paper-200 hover:border-paper-900 transition-colors"
+                  title={[asset.alt, asset.ref].filter(Boolean).join(" · ")}
+                >
+                  <MediaImage src={asset.blob} alt={asset.alt} className="w-full h-14" />
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-paper-500 mb-3">No figures were found in the source material.</p>
+          )}
+          <button
+            type="button"
+            onClick={() => fileInput.current?.click()}
+            disabled={uploading}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-xs font-medium bg-highlight-yellow/40 text-paper-900 hover:bg-highlight-yellow transition-colors disabled:opacity-50"
+          >
+            {uploading ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />} Upload an image
+          </button>
+          {error && <p className="mt-2 text-xs text-red-700">{error}</p>}
+          <input ref={fileInput} type="file" accept="image/*" className="hidden" onChange={(e) => handleFile(e.target.files?.[0])} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -23,6 +23,7 @@ import { Badge } from "./ui/badge";
 interface LandingPageProps {
   onStartCreate: () => void;
   onJoinGame: () => void;
+  onOpenLibrary: () => void;
 }
 
 const features = [
@@ -64,7 +65,7 @@ const features = [
   }
 ];
 
-export const LandingPage: React.FC<LandingPageProps> = ({ onStartCreate, onJoinGame }) => {
+export const LandingPage: React.FC<LandingPageProps> = ({ onStartCreate, onJoinGame, onOpenLibrary }) => {
   return (
     <div className="min-h-screen bg-white">
       {/* Navigation */}
@@ -78,6 +79,9 @@ export const LandingPage: React.FC<LandingPageProps> = ({ onStartCreate, onJoinG
               <span className="font-display text-xl font-bold text-paper-900">Teachify</span>
             </div>
             <div className="flex items-center gap-2 sm:gap-4">
+              <Button variant="ghost" className="text-paper-600 hover:text-paper-900 font-medium" onClick={onOpenLibrary}>
+                My Games
+              </Button>
               <Button variant="ghost" className="text-paper-600 hover:text-paper-900 font-medium" onClick={onJoinGame}>
                 Join Game
               </Button>
@@ -1,14 +1,45 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { Gamepad2, User, X, AlertTriangle, Check, ArrowRight, GraduationCap, WifiOff, Users } from "lucide-react";
 import { Button } from "./ui/button";
 import { Card } from "./ui/card";
 import { Input } from "./ui/input";
+import { connectSession, SessionClient } from "../services/session";
+import { GameSummary, JoinErrorReason, MAX_PLAYERS_PER_ROOM } from "../services/session-protocol";
+import { GAME_CODE_LENGTH, normalizeGameCode } from "../utils/game-code";
 
 interface StudentJoinProps {
-  onJoin: (code: string, name: string) => void;
+  onJoin: (session: SessionClient, game: GameSummary, playerId: string) => void;
   onBack: () => void;
 }
 
+const JOIN_ERROR_MESSAGES: Record<JoinErrorReason, string> = {
+  not_found: "That game no longer exists. Check the code with your teacher.",
+  started: "This game has already started. Only students who were already playing can rejoin, on the same device.",
+  full: "This lobby is full.",
+  name_taken: "Someone in this game already has that name. Try another.",
+  invalid: "Please enter a valid name.",
+};
+
+// The server's proof that a returning student is the one who dropped out; kept
+// per game code so a reload or a lost connection does not cost their score
+const rejoinTokenKey = (code: string) => `teachify-rejoin-${code}`;
+
+const readRejoinToken = (code: string): string | undefined => {
+  try {
+    return localStorage.getItem(rejoinTokenKey(code)) || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const storeRejoinToken = (code: string, token: string) => {
+  try {
+    localStorage.setItem(rejoinTokenKey(code), token);
+  } catch {
+    // Without storage the student can still play; they just cannot rejoin
+  }
+};
+
 export const StudentJoin: React.FC<StudentJoinProps> = ({ onJoin, onBack }) => {
   const [code, setCode] = useState("");
   const [name, setName] = useState("");
@@ -16,54 +47,80 @@ export const StudentJoin: React.FC<StudentJoinProps> = ({ onJoin, onBack }) => {
   const [joining, setJoining] = useState(false);
   const [gameStatus, setGameStatus] = useState<'not_found' | 'started' | 'found' | 'full' | 'error' | null>(null);
 
-  // Mock checking game status when code is 6 chars
+  const sessionRef = useRef<SessionClient | null>(null);
+  const handedOff = useRef(false);
+
+  const getSession = async () => {
+    if (!sessionRef.current) {
+      sessionRef.current = await connectSession();
+    }
+    return sessionRef.current;
+  };
+
+  // Close the connection unless it was handed over to GamePlay
   useEffect(() => {
-    if (code.length === 6) {
-      // Simulate API check
-      const timer = setTimeout(() => {
-        // Mock scenarios based on code for demonstration
-        if (code === "FULL00") {
-            setGameStatus('full');
-        } else if (code === "LIVE00") {
-            setGameStatus('started');
-        } else if (code === "WIFI00") {
-            setGameStatus('error');
-        } else if (code === "BAD000") {
-            setGameStatus('not_found');
-        } else {
-            // Default success for other codes
-            setGameStatus('found');
-        }
-      }, 500);
-      return () => clearTimeout(timer);
-    } else {
+    return () => {
+      if (!handedOff.current) sessionRef.current?.close();
+    };
+  }, []);
+
+  // Check the game status with the session server once the code is complete
+  useEffect(() => {
+    if (code.length !== GAME_CODE_LENGTH) {
       setGameStatus(null);
+      return;
     }
+
+    let stale = false;
+    const timer = setTimeout(async () => {
+      try {
+        const session = await getSession();
+        const result = await session.request({ type: 'lookup', code }, ['lookup_result']);
+        if (!stale) setGameStatus(result.status);
+      } catch (e) {
+        console.error("Game lookup failed", e);
+        sessionRef.current = null;
+        if (!stale) setGameStatus('error');
+      }
+    }, 300);
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
   }, [code]);
 
-  const canJoin = code.length === 6 && name.trim().length > 0 && gameStatus === 'found';
+  const canJoin = code.length === GAME_CODE_LENGTH && name.trim().length > 0 && (gameStatus === 'found' || gameStatus === 'started');
 
   const handleJoin = async () => {
     if (!canJoin) return;
     setJoining(true);
     setError(null);
-    
-    // Simulate network delay
-    setTimeout(() => {
-        // Simulate a specific error if name is "Error" for testing
-        if (name.toLowerCase() === "error") {
-            setJoining(false);
-            setError("Connection timed out. Please check your internet.");
-            return;
-        }
 
-        setJoining(false);
-        onJoin(code, name);
-    }, 1000);
+    try {
+      const session = await getSession();
+      const reply = await session.request(
+        { type: 'join', code, name: name.trim(), rejoinToken: readRejoinToken(code) },
+        ['joined', 'join_error']
+      );
+      if (reply.type === 'join_error') {
+        setError(JOIN_ERROR_MESSAGES[reply.reason]);
+        if (reply.reason === 'not_found' || reply.reason === 'started' || reply.reason === 'full') {
+          setGameStatus(reply.reason);
+        }
+        return;
+      }
+      storeRejoinToken(code, reply.rejoinToken);
+      handedOff.current = true;
+      onJoin(session, reply.game, reply.playerId);
+    } catch (e: any) {
+      setError(e.message || "Connection timed out. Please check your internet.");
+    } finally {
+      setJoining(false);
+    }
   };
 
   // Render code input boxes
-  const codeChars = code.padEnd(6, "").split("");
+  const codeChars = Array.from({ length: GAME_CODE_LENGTH }, (_, i) => code[i] || "");
 
   return (
     <main className="min-h-screen bg-background">
@@ -129,10 +186,10 @@ export const StudentJoin: React.FC<StudentJoinProps> = ({ onJoin, onBack }) => {
               <input
                 type="text"
                 value={code}
-                onChange={(e) => setCode(e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, 6))}
+                onChange={(e) => setCode(normalizeGameCode(e.target.value))}
                 placeholder="XXXXXX"
                 className="w-full text-center text-2xl font-mono tracking-[0.5em] h-0 opacity-0 absolute"
-                maxLength={6}
+                maxLength={GAME_CODE_LENGTH}
                 autoFocus
               />
                {/* Click overlay to focus hidden input if visual boxes are clicked */}
@@ -155,13 +212,13 @@ export const StudentJoin: React.FC<StudentJoinProps> = ({ onJoin, onBack }) => {
                 {gameStatus === 'started' && (
                   <div className="flex items-center justify-center gap-2 text-highlight-orange animate-scale-in">
                     <AlertTriangle className="w-4 h-4" />
-                    <span className="text-sm font-medium">Game already in progress</span>
+                    <span className="text-sm font-medium">Game in progress: only returning players can rejoin</span>
                   </div>
                 )}
                 {gameStatus === 'full' && (
                   <div className="flex items-center justify-center gap-2 text-highlight-purple animate-scale-in">
                     <Users className="w-4 h-4" />
-                    <span className="text-sm font-medium">Lobby is full (Max 30)</span>
+                    <span className="text-sm font-medium">Lobby is full (Max {MAX_PLAYERS_PER_ROOM})</span>
                   </div>
                 )}
                 {gameStatus === 'error' && (
@@ -225,7 +282,7 @@ export const StudentJoin: React.FC<StudentJoinProps> = ({ onJoin, onBack }) => {
 
         {/* Help text */}
         <p className="text-center text-paper-400 text-sm mt-6 animate-slide-up stagger-2">
-          Ask your teacher for the 6-character game code
+          Ask your teacher for the {GAME_CODE_LENGTH}-character game code
         </p>
         </div>
       </div>
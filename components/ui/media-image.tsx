@@ -0,0 +1,26 @@
+import React, { useEffect, useState } from "react";
+
+interface MediaImageProps {
+  // A stored figure, or the data URL a student receives from the session server
+  src: Blob | string;
+  alt: string;
+  className?: string;
+}
+
+export const MediaImage: React.FC<MediaImageProps> = ({ src, alt, className = "" }) => {
+  const [url, setUrl] = useState<string | null>(typeof src === "string" ? src : null);
+
+  // Object URLs live as long as the image is on screen
+  useEffect(() => {
+    if (typeof src === "string") {
+      setUrl(src);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(src);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [src]);
+
+  if (!url) return null;
+  return <img src={url} alt={alt} className={`object-contain rounded-lg ${className}`} />;
+};
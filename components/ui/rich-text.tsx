@@ -0,0 +1,56 @@
+import React, { useMemo } from "react";
+import katex from "katex";
+import "katex/contrib/mhchem";
+import { parseRichText, RichInline } from "../../utils/rich-text";
+
+interface RichTextProps {
+  text: string;
+  className?: string;
+}
+
+// Malformed LaTeX shows its source in red instead of throwing
+const MathNotation: React.FC<{ tex: string; display?: boolean }> = ({ tex, display = false }) => {
+  const html = useMemo(() => katex.renderToString(tex, { displayMode: display, throwOnError: false }), [tex, display]);
+  return <span className={display ? "block my-2 overflow-x-auto overflow-y-hidden" : undefined} dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+const renderInline = (inlines: RichInline[]): React.ReactNode[] =>
+  inlines.map((inline, i) => {
+    switch (inline.type) {
+      case 'text': return <React.Fragment key={i}>{inline.text}</React.Fragment>;
+      case 'math': return <MathNotation key={i} tex={inline.tex} />;
+      case 'code': return <code key={i} className="px-1.5 py-0.5 rounded bg-black/5 font-mono text-[0.9em]">{inline.code}</code>;
+      case 'strong': return <strong key={i}>{renderInline(inline.children)}</strong>;
+      case 'em': return <em key={i}>{renderInline(inline.children)}</em>;
+      case 'break': return <br key={i} />;
+    }
+  });
+
+// Question text, options and explanations with math, emphasis and code. Only
+// renders spans and <pre>, so it can sit inside headings and buttons; a single
+// paragraph flows inline with its surroundings.
+export const RichText: React.FC<RichTextProps> = ({ text, className = "" }) => {
+  const blocks = useMemo(() => parseRichText(text), [text]);
+
+  if (blocks.length === 1 && blocks[0].type === 'paragraph') {
+    return <span className={className}>{renderInline(blocks[0].children)}</span>;
+  }
+  return (
+    <span className={`block ${className}`}>
+      {blocks.map((block, i) => {
+        switch (block.type) {
+          case 'paragraph':
+            return <span key={i} className="block mt-2 first:mt-0">{renderInline(block.children)}</span>;
+          case 'math':
+            return <MathNotation key={i} tex={block.tex} display />;
+          case 'code':
+            return (
+              <pre key={i} className="my-2 p-3 rounded-lg bg-paper-900 text-paper-100 text-sm text-left font-mono overflow-x-auto whitespace-pre" data-language={block.language}>
+                <code>{block.code}</code>
+              </pre>
+            );
+        }
+      })}
+    </span>
+  );
+};
@@ -0,0 +1,89 @@
+import { WebSocketServer, WebSocket } from "ws";
+import { ClientMessage, DEFAULT_SESSION_PORT, ServerMessage } from "../services/session-protocol";
+import { createRoomStore, Peer, Room } from "./rooms";
+
+// Standalone session server. Run with `npm run server`.
+
+const port = Number(process.env.SESSION_PORT) || DEFAULT_SESSION_PORT;
+const store = createRoomStore();
+
+const parseMessage = (raw: WebSocket.RawData): ClientMessage | null => {
+  try {
+    const parsed = JSON.parse(raw.toString());
+    return parsed && typeof parsed.type === 'string' ? parsed as ClientMessage : null;
+  } catch {
+    return null;
+  }
+};
+
+const wss = new WebSocketServer({ port });
+
+wss.on('connection', (socket) => {
+  const peer: Peer = {
+    send: (message: ServerMessage) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    }
+  };
+
+  // Per-connection state: a socket is either a host of one room or a player in one room.
+  let hostedRoom: Room | null = null;
+  let joinedRoom: Room | null = null;
+  let playerId: string | null = null;
+
+  socket.on('message', (raw) => {
+    const message = parseMessage(raw);
+    if (!message) {
+      peer.send({ type: 'error', message: 'Malformed message' });
+      return;
+    }
+
+    try {
+      switch (message.type) {
+        case 'host_create':
+          if (hostedRoom) store.leave(peer);
+          hostedRoom = store.createRoom(peer, message.game, message.images);
+          peer.send({ type: 'room_created', code: hostedRoom.code });
+          break;
+        case 'lookup':
+          peer.send({ type: 'lookup_result', code: message.code, status: store.lookup(message.code) });
+          break;
+        case 'join': {
+          // A second join from the same socket replaces its player rather than leaving a ghost behind
+          if (joinedRoom && playerId) store.removePlayer(joinedRoom, playerId);
+          joinedRoom = null;
+          playerId = null;
+          const result = store.joinRoom(message.code, message.name, peer, message.rejoinToken);
+          if ('error' in result) {
+            peer.send({ type: 'join_error', reason: result.error });
+          } else {
+            joinedRoom = result.room;
+            playerId = result.player.id;
+            peer.send({ type: 'joined', playerId, rejoinToken: result.rejoinToken, game: result.room.summary });
+            store.catchUp(result.room, peer);
+          }
+          break;
+        }
+        case 'question_start':
+          if (hostedRoom) store.startQuestion(hostedRoom, message.index);
+          break;
+        case 'answer_submit':
+          if (joinedRoom && playerId) store.submitAnswer(joinedRoom, playerId, message.questionIndex, message.answer);
+          break;
+        case 'reveal':
+          if (hostedRoom) store.reveal(hostedRoom, message.index);
+          break;
+        case 'game_over':
+          if (hostedRoom) store.finish(hostedRoom);
+          break;
+        default:
+          peer.send({ type: 'error', message: `Unknown message type` });
+      }
+    } catch (error: any) {
+      peer.send({ type: 'error', message: error.message || 'Request failed' });
+    }
+  });
+
+  socket.on('close', () => store.leave(peer));
+});
+
+console.log(`Teachify session server listening on ws://localhost:${port}`);
@@ -0,0 +1,57 @@
+import { GameData } from "../types";
+import { GameLookupStatus, MAX_PLAYERS_PER_ROOM } from "../services/session-protocol";
+import { generateGameCode, normalizeGameCode } from "../utils/game-code";
+import { RoomPhase } from "./rooms";
+
+// Maps live game codes to the stored GameData and its session state. The
+// registry is the only place codes are issued, so they never collide.
+
+export interface RegisteredGame {
+  code: string;
+  game: GameData;
+  phase: RoomPhase;
+  players: { size: number };
+}
+
+const MAX_CODE_ATTEMPTS = 50;
+
+export const createGameRegistry = <T extends RegisteredGame>() => {
+  const entries = new Map<string, T>();
+
+  const issueCode = (): string => {
+    for (let i = 0; i < MAX_CODE_ATTEMPTS; i++) {
+      const code = generateGameCode();
+      if (!entries.has(code)) return code;
+    }
+    throw new Error("Could not issue a unique game code. Please try again.");
+  };
+
+  // Issues a fresh code and stores the entry built for it.
+  const register = (build: (code: string) => T): T => {
+    const entry = build(issueCode());
+    entries.set(entry.code, entry);
+    return entry;
+  };
+
+  const get = (code: string): T | undefined => entries.get(normalizeGameCode(code));
+
+  const lookup = (code: string): GameLookupStatus => {
+    const entry = get(code);
+    if (!entry) return 'not_found';
+    if (entry.phase !== 'lobby') return 'started';
+    if (entry.players.size >= MAX_PLAYERS_PER_ROOM) return 'full';
+    return 'found';
+  };
+
+  const release = (code: string) => {
+    entries.delete(code);
+  };
+
+  return {
+    register,
+    get,
+    lookup,
+    release,
+    all: () => Array.from(entries.values()),
+  };
+};
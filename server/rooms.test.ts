@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { ServerMessage } from "../services/session-protocol";
+import { GameData } from "../types";
+import { createRoomStore, Peer } from "./rooms";
+
+const game: GameData = {
+  isEngine: false,
+  title: "Cells",
+  description: "",
+  theme: "science",
+  questions: [{
+    id: "q1",
+    kind: "multiple_choice",
+    text: "What is the basic unit of life?",
+    options: ["Cell", "Atom", "Organ", "Tissue"],
+    correctIndex: 0,
+    explanation: "",
+    concept: "cells"
+  }]
+};
+
+const peer = (): Peer & { messages: ServerMessage[] } => {
+  const messages: ServerMessage[] = [];
+  return { messages, send: (message) => void messages.push(message) };
+};
+
+// A room with one player who scored on the first question and then dropped out
+const startedRoomWithDeparted = () => {
+  const store = createRoomStore();
+  const room = store.createRoom(peer(), game);
+  const joined = store.joinRoom(room.code, "Ada", peer());
+  if ('error' in joined) throw new Error(joined.error);
+  store.startQuestion(room, 0);
+  store.submitAnswer(room, joined.player.id, 0, { kind: "multiple_choice", index: 0 });
+  store.reveal(room, 0);
+  store.removePlayer(room, joined.player.id);
+  return { store, room, joined };
+};
+
+describe("joinRoom", () => {
+  it("restores a departed player's score with their rejoin token", () => {
+    const { store, room, joined } = startedRoomWithDeparted();
+    const score = room.departed.get(joined.rejoinToken)!.score;
+    expect(score).toBeGreaterThan(0);
+
+    const rejoined = store.joinRoom(room.code, "Ada", peer(), joined.rejoinToken);
+    if ('error' in rejoined) throw new Error(rejoined.error);
+    expect(rejoined.player.id).toBe(joined.player.id);
+    expect(rejoined.player.score).toBe(score);
+    expect(room.departed.size).toBe(0);
+  });
+
+  it("does not hand a departed player's score to someone who only knows their name", () => {
+    const { store, room } = startedRoomWithDeparted();
+    expect(store.joinRoom(room.code, "Ada", peer())).toEqual({ error: 'started' });
+    expect(store.joinRoom(room.code, "ada", peer(), "guessed-token")).toEqual({ error: 'started' });
+  });
+
+  it("does not keep players who leave before the first question", () => {
+    const store = createRoomStore();
+    const room = store.createRoom(peer(), game);
+    const joined = store.joinRoom(room.code, "Ada", peer());
+    if ('error' in joined) throw new Error(joined.error);
+    store.removePlayer(room, joined.player.id);
+
+    expect(room.departed.size).toBe(0);
+    expect('error' in store.joinRoom(room.code, "Ada", peer())).toBe(false);
+  });
+});
@@ -0,0 +1,293 @@
+import { randomUUID } from "crypto";
+import {
+  GameSummary,
+  JoinErrorReason,
+  LeaderboardEntry,
+  PlayerInfo,
+  PublicImage,
+  PublicQuestion,
+  ServerMessage,
+} from "../services/session-protocol";
+import { GameData, Question, QuestionAnswer } from "../types";
+import { questionTimeLimitMs, resolveGameRules } from "../utils/game-rules";
+import { correctAnswerOf, isAnswerFor } from "../utils/grading";
+import { shuffle, withQuestionKind } from "../utils/question-kinds";
+import { createGameRegistry } from "./registry";
+import { AnswerRecord, SCORING_CONFIG, scoreAnswer } from "./scoring";
+
+// Anything we can push a server message to (a WebSocket in production).
+export interface Peer {
+  send: (message: ServerMessage) => void;
+}
+
+export type RoomPhase = 'lobby' | 'question' | 'reveal' | 'finished';
+
+interface Player extends PlayerInfo {
+  peer: Peer;
+  answers: Map<number, AnswerRecord>;
+  // Only this player is told it; the player id is shown to everyone in the room
+  rejoinToken: string;
+}
+
+export interface Room {
+  code: string;
+  host: Peer;
+  game: GameData;
+  images: Record<string, PublicImage>;
+  summary: GameSummary;
+  players: Map<string, Player>;
+  // Players who disconnected, by rejoin token, so rejoining keeps their score
+  departed: Map<string, Player>;
+  phase: RoomPhase;
+  currentIndex: number;
+  questionStartedAt: number;
+  timeLimitMs: number;
+}
+
+const AVATAR_COLORS = [
+  "bg-red-500", "bg-orange-500", "bg-amber-500",
+  "bg-green-500", "bg-emerald-500", "bg-teal-500",
+  "bg-cyan-500", "bg-blue-500", "bg-indigo-500",
+  "bg-violet-500", "bg-purple-500", "bg-fuchsia-500", "bg-pink-500", "bg-rose-500"
+];
+
+const toPlayerInfo = ({ peer, answers, rejoinToken, ...info }: Player): PlayerInfo => info;
+
+// Shuffles until the order differs from the original, so the answer is never shown as-is.
+const shuffleAway = (values: string[]): string[] => {
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const shuffled = shuffle(values);
+    if (shuffled.some((value, i) => value !== values[i])) return shuffled;
+  }
+  return values;
+};
+
+const toPublicQuestion = (question: Question, images: Record<string, PublicImage>): PublicQuestion => {
+  const image = (id?: string | null) => id && images[id] ? images[id] : undefined;
+  const base = { id: question.id, text: question.text, concept: question.concept, image: image(question.image) };
+  switch (question.kind) {
+    case 'multiple_choice':
+    case 'true_false':
+    case 'multi_select': {
+      const optionImages = 'optionImages' in question ? question.optionImages?.map(id => image(id) || null) : undefined;
+      return { ...base, kind: question.kind, options: question.options, optionImages };
+    }
+    case 'ordering':
+      return { ...base, kind: 'ordering', items: shuffleAway(question.items) };
+    case 'numeric':
+      return { ...base, kind: 'numeric', unit: question.unit };
+    case 'short_text':
+      return { ...base, kind: 'short_text' };
+    case 'matching':
+      return { ...base, kind: 'matching', left: question.pairs.map(p => p.left), right: shuffleAway(question.pairs.map(p => p.right)) };
+  }
+};
+
+const toSummary = (game: GameData, code: string): GameSummary => ({
+  code,
+  title: game.title,
+  description: game.description,
+  theme: game.theme,
+  isEngine: game.isEngine,
+  rules: resolveGameRules(game),
+  questionCount: game.questions.length
+});
+
+export const createRoomStore = () => {
+  const registry = createGameRegistry<Room>();
+
+  const broadcast = (room: Room, message: ServerMessage) => {
+    room.players.forEach(p => p.peer.send(message));
+  };
+
+  const publishPlayers = (room: Room) => {
+    const message: ServerMessage = { type: 'players', players: Array.from(room.players.values()).map(toPlayerInfo) };
+    room.host.send(message);
+    broadcast(room, message);
+  };
+
+  const leaderboard = (room: Room): LeaderboardEntry[] => {
+    return Array.from(room.players.values())
+      .map(p => ({ playerId: p.id, name: p.name, color: p.color, score: p.score }))
+      .sort((a, b) => b.score - a.score);
+  };
+
+  const createRoom = (host: Peer, game: GameData, images: Record<string, PublicImage> = {}): Room => {
+    if (!Array.isArray(game.questions) || game.questions.length === 0) {
+      throw new Error("A game needs at least one question");
+    }
+    const questions = game.questions.map(withQuestionKind);
+    return registry.register(code => ({
+      code,
+      host,
+      game: { ...game, code, questions },
+      images,
+      summary: toSummary(game, code),
+      players: new Map(),
+      departed: new Map(),
+      phase: 'lobby',
+      currentIndex: -1,
+      questionStartedAt: 0,
+      timeLimitMs: questionTimeLimitMs(resolveGameRules(game), SCORING_CONFIG.ANSWER_WINDOW_MS)
+    }));
+  };
+
+  const joinRoom = (
+    code: string,
+    name: string,
+    peer: Peer,
+    rejoinToken?: string
+  ): { player: PlayerInfo; rejoinToken: string; room: Room } | { error: JoinErrorReason } => {
+    const trimmed = name.trim().slice(0, 20);
+    if (!trimmed) return { error: 'invalid' };
+    const status = registry.lookup(code);
+    const returning = rejoinToken ? registry.get(code)?.departed.get(rejoinToken) : undefined;
+    // Students who dropped out may come back after the game has started
+    if (status !== 'found' && !(status === 'started' && returning)) return { error: status };
+    const room = registry.get(code)!;
+
+    const wanted = (returning?.name ?? trimmed).toLowerCase();
+    const nameTaken = Array.from(room.players.values()).some(p => p.name.toLowerCase() === wanted);
+    if (nameTaken) return { error: 'name_taken' };
+
+    if (returning) room.departed.delete(returning.rejoinToken);
+    const player: Player = returning
+      ? { ...returning, peer, status: room.phase === 'question' && !returning.answers.has(room.currentIndex) ? 'thinking' : returning.status }
+      : {
+          id: randomUUID(),
+          name: trimmed,
+          color: AVATAR_COLORS[room.players.size % AVATAR_COLORS.length],
+          score: 0,
+          streak: 0,
+          status: 'waiting',
+          peer,
+          answers: new Map(),
+          rejoinToken: randomUUID()
+        };
+    room.players.set(player.id, player);
+    publishPlayers(room);
+    return { player: toPlayerInfo(player), rejoinToken: player.rejoinToken, room };
+  };
+
+  // A player joining mid-question gets it with the time that is left
+  const catchUp = (room: Room, peer: Peer) => {
+    if (room.phase !== 'question') return;
+    peer.send({
+      type: 'question_start',
+      index: room.currentIndex,
+      total: room.game.questions.length,
+      question: toPublicQuestion(room.game.questions[room.currentIndex], room.images),
+      timeLimitMs: Math.max(0, room.timeLimitMs - (Date.now() - room.questionStartedAt))
+    });
+  };
+
+  // Grades every player for the open question and tells each of them how they did.
+  const reveal = (room: Room, index: number) => {
+    if (room.phase !== 'question' || index !== room.currentIndex) return;
+    const question = room.game.questions[index];
+    room.phase = 'reveal';
+
+    room.players.forEach(player => {
+      const { result, state } = scoreAnswer(question, player.answers.get(index), player, room.timeLimitMs);
+      player.score = state.score;
+      player.streak = state.streak;
+      player.status = result.correct ? 'correct' : 'wrong';
+      player.peer.send({
+        type: 'reveal',
+        index,
+        correctAnswer: correctAnswerOf(question),
+        explanation: question.explanation,
+        misconception: question.misconception,
+        source: question.source,
+        result
+      });
+    });
+    room.host.send({
+      type: 'reveal',
+      index,
+      correctAnswer: correctAnswerOf(question),
+      explanation: question.explanation,
+      misconception: question.misconception,
+      source: question.source
+    });
+    publishPlayers(room);
+  };
+
+  const startQuestion = (room: Room, index: number) => {
+    const question = room.game.questions[index];
+    if (!question || room.phase === 'finished') return;
+    if (room.phase === 'question' && room.currentIndex !== index) reveal(room, room.currentIndex);
+
+    room.phase = 'question';
+    room.currentIndex = index;
+    room.questionStartedAt = Date.now();
+    room.players.forEach(p => { p.status = 'thinking'; });
+    broadcast(room, {
+      type: 'question_start',
+      index,
+      total: room.game.questions.length,
+      question: toPublicQuestion(question, room.images),
+      timeLimitMs: room.timeLimitMs
+    });
+    publishPlayers(room);
+  };
+
+  const submitAnswer = (room: Room, playerId: string, questionIndex: number, answer: QuestionAnswer) => {
+    const player = room.players.get(playerId);
+    if (!player || room.phase !== 'question' || questionIndex !== room.currentIndex) return;
+    if (player.answers.has(questionIndex)) return;
+    if (!isAnswerFor(room.game.questions[questionIndex], answer)) return;
+    const elapsedMs = Date.now() - room.questionStartedAt;
+    // Timed games close the question; a second of grace covers network latency
+    if (resolveGameRules(room.game)?.timer && elapsedMs > room.timeLimitMs + 1000) return;
+
+    player.answers.set(questionIndex, { answer, elapsedMs });
+    player.status = 'answered';
+    player.peer.send({ type: 'answer_accepted', questionIndex });
+    publishPlayers(room);
+  };
+
+  const finish = (room: Room) => {
+    if (room.phase === 'question') reveal(room, room.currentIndex);
+    room.phase = 'finished';
+    const message: ServerMessage = { type: 'game_over', leaderboard: leaderboard(room) };
+    room.host.send(message);
+    broadcast(room, message);
+  };
+
+  const removePlayer = (room: Room, playerId: string) => {
+    const player = room.players.get(playerId);
+    if (!player) return;
+    room.players.delete(playerId);
+    // Nothing to keep for a player who leaves before the first question
+    if (room.phase !== 'lobby') room.departed.set(player.rejoinToken, player);
+    publishPlayers(room);
+  };
+
+  const leave = (peer: Peer) => {
+    registry.all().forEach(room => {
+      if (room.host === peer) {
+        broadcast(room, { type: 'room_closed' });
+        registry.release(room.code);
+        return;
+      }
+      const player = Array.from(room.players.values()).find(p => p.peer === peer);
+      if (player) removePlayer(room, player.id);
+    });
+  };
+
+  return {
+    lookup: registry.lookup,
+    createRoom,
+    joinRoom,
+    catchUp,
+    startQuestion,
+    submitAnswer,
+    reveal,
+    finish,
+    removePlayer,
+    leave,
+  };
+};
+
+export type RoomStore = ReturnType<typeof createRoomStore>;
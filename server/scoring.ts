@@ -0,0 +1,57 @@
+import { Question, QuestionAnswer } from "../types";
+import { AnswerResult } from "../services/session-protocol";
+import { gradeAnswer } from "../utils/grading";
+
+// Authoritative scoring. Runs only on the session server so students never
+// see the correct answer before the reveal and cannot award themselves points.
+
+export const SCORING_CONFIG = {
+  BASE_POINTS: 100,
+  MAX_SPEED_BONUS: 50,       // full bonus for an instant answer, 0 at the end of the window
+  STREAK_BONUS: 10,          // per consecutive correct answer before this one
+  MAX_STREAK_BONUS: 50,
+  ANSWER_WINDOW_MS: 30000    // used when the game has no timer rule
+};
+
+export interface AnswerRecord {
+  answer: QuestionAnswer;
+  elapsedMs: number; // measured by the server from question start to receipt
+}
+
+export interface PlayerScoreState {
+  score: number;
+  streak: number;
+}
+
+export const speedBonus = (elapsedMs: number, windowMs: number = SCORING_CONFIG.ANSWER_WINDOW_MS): number => {
+  const remaining = Math.max(0, 1 - elapsedMs / windowMs);
+  return Math.round(SCORING_CONFIG.MAX_SPEED_BONUS * remaining);
+};
+
+// Grades one player's answer (or lack of one) and returns the updated totals.
+export const scoreAnswer = (
+  question: Question,
+  answer: AnswerRecord | undefined,
+  state: PlayerScoreState,
+  windowMs: number = SCORING_CONFIG.ANSWER_WINDOW_MS
+): { result: AnswerResult; state: PlayerScoreState } => {
+  const correct = !!answer && gradeAnswer(question, answer.answer);
+
+  if (!correct) {
+    const nextState = { score: state.score, streak: 0 };
+    return {
+      result: { answered: !!answer, correct: false, points: 0, score: nextState.score, streak: 0 },
+      state: nextState
+    };
+  }
+
+  const points = SCORING_CONFIG.BASE_POINTS
+    + speedBonus(answer.elapsedMs, windowMs)
+    + Math.min(state.streak * SCORING_CONFIG.STREAK_BONUS, SCORING_CONFIG.MAX_STREAK_BONUS);
+  const nextState = { score: state.score + points, streak: state.streak + 1 };
+
+  return {
+    result: { answered: true, correct: true, points, score: nextState.score, streak: nextState.streak },
+    state: nextState
+  };
+};
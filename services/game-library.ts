@@ -0,0 +1,134 @@
+import { GameData } from "../types";
+import { openDatabase, requestToPromise, transactionDone } from "../utils/idb";
+import { normalizeTheme } from "../utils/game-repair";
+import { withQuestionKind } from "../utils/question-kinds";
+
+export interface SavedGame {
+  id: string;
+  name: string;
+  game: GameData;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Storage contract for the "My Games" library. The browser uses IndexedDB;
+// a server-backed implementation only needs to provide the same methods.
+export interface GameStorage {
+  list: () => Promise<SavedGame[]>;
+  get: (id: string) => Promise<SavedGame | null>;
+  save: (game: GameData, name?: string) => Promise<SavedGame>;
+  update: (id: string, game: GameData) => Promise<SavedGame>;
+  rename: (id: string, name: string) => Promise<SavedGame>;
+  duplicate: (id: string) => Promise<SavedGame>;
+  remove: (id: string) => Promise<void>;
+}
+
+const DB_NAME = 'teachify';
+const DB_VERSION = 1;
+const GAMES_STORE = 'games';
+
+const createId = () => crypto.randomUUID();
+
+// Games saved before question kinds and fixed themes existed are upgraded when read.
+const upgrade = (saved: SavedGame): SavedGame => ({
+  ...saved,
+  game: { ...saved.game, theme: normalizeTheme(saved.game.theme), questions: saved.game.questions.map(withQuestionKind) }
+});
+
+export const createIndexedDBGameStorage = (): GameStorage => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(GAMES_STORE)) {
+          const store = db.createObjectStore(GAMES_STORE, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+      });
+    }
+    return dbPromise;
+  };
+
+  const put = async (saved: SavedGame): Promise<SavedGame> => {
+    const db = await getDb();
+    const tx = db.transaction(GAMES_STORE, 'readwrite');
+    tx.objectStore(GAMES_STORE).put(saved);
+    await transactionDone(tx);
+    return saved;
+  };
+
+  const get = async (id: string): Promise<SavedGame | null> => {
+    const db = await getDb();
+    const tx = db.transaction(GAMES_STORE, 'readonly');
+    const result = await requestToPromise<SavedGame | undefined>(tx.objectStore(GAMES_STORE).get(id));
+    return result ? upgrade(result) : null;
+  };
+
+  const getOrThrow = async (id: string): Promise<SavedGame> => {
+    const saved = await get(id);
+    if (!saved) throw new Error("That game is no longer in your library.");
+    return saved;
+  };
+
+  return {
+    list: async () => {
+      const db = await getDb();
+      const tx = db.transaction(GAMES_STORE, 'readonly');
+      const all = await requestToPromise<SavedGame[]>(tx.objectStore(GAMES_STORE).getAll());
+      return all.map(upgrade).sort((a, b) => b.updatedAt - a.updatedAt);
+    },
+
+    get,
+
+    save: (game, name) => {
+      const now = Date.now();
+      return put({ id: createId(), name: name || game.title, game, createdAt: now, updatedAt: now });
+    },
+
+    update: async (id, game) => {
+      const saved = await getOrThrow(id);
+      return put({ ...saved, game, updatedAt: Date.now() });
+    },
+
+    rename: async (id, name) => {
+      const saved = await getOrThrow(id);
+      const trimmed = name.trim();
+      if (!trimmed) throw new Error("Game names cannot be empty.");
+      return put({ ...saved, name: trimmed, updatedAt: Date.now() });
+    },
+
+    duplicate: async (id) => {
+      const saved = await getOrThrow(id);
+      const now = Date.now();
+      return put({
+        ...saved,
+        id: createId(),
+        name: `${saved.name} (copy)`,
+        game: structuredClone(saved.game),
+        createdAt: now,
+        updatedAt: now
+      });
+    },
+
+    remove: async (id) => {
+      const db = await getDb();
+      const tx = db.transaction(GAMES_STORE, 'readwrite');
+      tx.objectStore(GAMES_STORE).delete(id);
+      await transactionDone(tx);
+    }
+  };
+};
+
+export const gameLibrary: GameStorage = createIndexedDBGameStorage();
+
+// Keeps a newly generated game. A library that cannot be written to (private
+// browsing, full disk) gives null; the editor's Save tries again.
+export const saveGeneratedGame = async (game: GameData, storage: GameStorage = gameLibrary): Promise<string | null> => {
+  try {
+    return (await storage.save(game)).id;
+  } catch (err) {
+    console.error("Failed to save game to library", err);
+    return null;
+  }
+};
@@ -1,16 +1,54 @@
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
-import { GameData } from "../types";
+import { Type } from "@google/genai";
+import { GameData, MediaAsset, ObjectiveType, Question, QuestionKind, QuestionTypeMix, SourceMaterial } from "../types";
+import { createLLMError, JsonRequest, LLMAttempt, llmProvider, LLMProvider, toLLMError } from "./llm";
+import { GAME_MECHANICS, normalizeGameRules, selectMechanics } from "../utils/game-rules";
+import { repairGame, repairQuestion } from "../utils/game-repair";
+import { validateGame, validateQuestion } from "../utils/game-validation";
+import {
+  chunkSources,
+  chunkTitle,
+  ContentChunk,
+  formatChunks,
+  packChunks,
+  planChunkCoverage,
+  rankChunks,
+  splitIntoChunks
+} from "../utils/content-chunks";
+import { sourceWeights } from "../utils/source-bundle";
+import { FIGURE_MARKER_PATTERN } from "../utils/media";
+import { parsePartialJson } from "../utils/partial-json";
+import { clampQuestionCount, countKinds, planQuestionKinds, QUESTION_COUNT_LIMITS } from "../utils/question-mix";
 
 export interface GenerateOptions {
   content: string;
   objective: string;
-  objectiveType: string;
+  objectiveType: ObjectiveType;
   gameMode: 'legacy' | 'engine';
   preferredGenre?: string;
   preferredMechanics?: string[];
   avoidMechanics?: string[];
+  questionCount?: number;
+  typeMix?: QuestionTypeMix;
+  // Labeled, weighted materials; `content` is then their combined text
+  sources?: SourceMaterial[];
+  // Called while questions stream in, with every question finished so far
+  onPreview?: (preview: GenerationPreview) => void;
+  // Aborting cancels the request in flight, the backoff and every remaining retry
+  signal?: AbortSignal;
 }
 
+export interface GenerationPreview {
+  // Title, description, theme and rules, once the first batch has streamed them
+  details: GameData | null;
+  // Repaired and valid, but the final review may still drop some
+  questions: Question[];
+  // Stem of the question the model is writing right now
+  drafting?: string;
+  total: number;
+}
+
+export const GENERATION_CANCELLED = "Generation cancelled";
+
 // Constants for timeout management
 const TIMEOUT_CONFIG = {
   INITIAL_TIMEOUT: 90000,      // 90 seconds for first attempt
@@ -23,184 +61,886 @@ const TIMEOUT_CONFIG = {
   }
 };
 
-const parseGameResponse = (responseText: string, options: GenerateOptions): GameData => {
+// Larger games are generated in batches so each response stays well inside
+// the model's output limit and the strategy timeouts above.
+const BATCH_SIZE = 10;
+
+// Define retry strategies with decreasing content size and timeout
+const STRATEGIES = [
+  {
+    label: "Full Analysis",
+    charLimit: TIMEOUT_CONFIG.CONTENT_LIMITS.HIGH,
+    timeout: TIMEOUT_CONFIG.INITIAL_TIMEOUT,
+    temperature: 0.4
+  },
+  {
+    label: "Condensed Summary",
+    charLimit: TIMEOUT_CONFIG.CONTENT_LIMITS.MEDIUM,
+    timeout: TIMEOUT_CONFIG.FALLBACK_TIMEOUT,
+    temperature: 0.5
+  },
+  {
+    label: "Key Concepts",
+    charLimit: TIMEOUT_CONFIG.CONTENT_LIMITS.LOW,
+    timeout: TIMEOUT_CONFIG.MINIMAL_TIMEOUT,
+    temperature: 0.6
+  }
+];
+
+export type RegenerateVariant = 'replace' | 'similar' | 'harder' | 'easier' | 'different_misconception';
+
+export interface RegenerateOptions {
+  content: string;
+  objective: string;
+  objectiveType: ObjectiveType;
+  existingQuestions: Question[];
+  target: Question;
+  variant: RegenerateVariant;
+  sources?: SourceMaterial[];
+  media?: MediaAsset[]; // The game's images, which the new question may show
+  signal?: AbortSignal;
+}
+
+const QUESTION_BASE_PROPERTIES = {
+  id: { type: Type.STRING },
+  text: { type: Type.STRING },
+  explanation: { type: Type.STRING },
+  concept: { type: Type.STRING },
+  misconception: { type: Type.STRING },
+  chunkId: { type: Type.STRING },
+  sourceQuote: { type: Type.STRING },
+  imageId: { type: Type.STRING }
+};
+
+const STRING_LIST = { type: Type.ARRAY, items: { type: Type.STRING } };
+
+// Gemini writes properties alphabetically unless told otherwise; the stem and
+// answers come first so a streamed question can be previewed early.
+const questionSchema = (kind: QuestionKind, properties: object, required: string[]) => {
+  const { id, text, imageId, ...details } = QUESTION_BASE_PROPERTIES;
+  const ordered = { kind: { type: Type.STRING, enum: [kind] }, id, text, imageId, ...properties, ...details };
+  return {
+    type: Type.OBJECT,
+    properties: ordered,
+    propertyOrdering: Object.keys(ordered),
+    required: ['kind', 'text', 'explanation', 'concept', ...required]
+  };
+};
+
+// One response schema per question kind; mixed batches accept any of them.
+const QUESTION_SCHEMAS: Record<QuestionKind, object> = {
+  multiple_choice: questionSchema('multiple_choice', {
+    options: STRING_LIST,
+    optionImageIds: STRING_LIST,
+    correctIndex: { type: Type.INTEGER }
+  }, ['options', 'correctIndex']),
+  true_false: questionSchema('true_false', { options: STRING_LIST, correctIndex: { type: Type.INTEGER } }, ['options', 'correctIndex']),
+  multi_select: questionSchema('multi_select', {
+    options: STRING_LIST,
+    optionImageIds: STRING_LIST,
+    correctIndices: { type: Type.ARRAY, items: { type: Type.INTEGER } }
+  }, ['options', 'correctIndices']),
+  ordering: questionSchema('ordering', { items: STRING_LIST }, ['items']),
+  numeric: questionSchema('numeric', {
+    answer: { type: Type.NUMBER },
+    tolerance: { type: Type.NUMBER },
+    unit: { type: Type.STRING }
+  }, ['answer', 'tolerance']),
+  short_text: questionSchema('short_text', { acceptedAnswers: STRING_LIST }, ['acceptedAnswers']),
+  matching: questionSchema('matching', {
+    pairs: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { left: { type: Type.STRING }, right: { type: Type.STRING } },
+        required: ['left', 'right']
+      }
+    }
+  }, ['pairs'])
+};
+
+const questionItemsSchema = (kinds: QuestionKind[]) => {
+  const unique = Array.from(new Set(kinds));
+  return unique.length === 1 ? QUESTION_SCHEMAS[unique[0]] : { anyOf: unique.map(kind => QUESTION_SCHEMAS[kind]) };
+};
+
+const questionsSchema = (kinds: QuestionKind[]) => ({
+  type: Type.OBJECT,
+  properties: {
+    questions: {
+      type: Type.ARRAY,
+      items: questionItemsSchema(kinds)
+    }
+  }
+});
+
+const INTEGER_FIELDS = (...names: string[]) => ({
+  type: Type.OBJECT,
+  properties: Object.fromEntries(names.map(name => [name, { type: Type.INTEGER }]))
+});
+
+const RULES_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    mechanics: { type: Type.ARRAY, items: { type: Type.STRING, enum: GAME_MECHANICS } },
+    economy: {
+      type: Type.OBJECT,
+      properties: {
+        currencyName: { type: Type.STRING },
+        ...INTEGER_FIELDS('startingBalance', 'rewardPerCorrect', 'costPerMiss').properties
+      }
+    },
+    combat: INTEGER_FIELDS('startingHealth', 'damagePerMiss', 'healPerCorrect'),
+    movement: INTEGER_FIELDS('zones', 'stepsPerCorrect'),
+    timer: INTEGER_FIELDS('secondsPerQuestion')
+  },
+  required: ['mechanics']
+};
+
+const gameSchema = (kinds: QuestionKind[], withRules: boolean) => ({
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    description: { type: Type.STRING },
+    theme: { type: Type.STRING },
+    ...(withRules ? { rules: RULES_SCHEMA } : {}),
+    questions: {
+      type: Type.ARRAY,
+      items: questionItemsSchema(kinds)
+    }
+  },
+  propertyOrdering: ['title', 'description', 'theme', ...(withRules ? ['rules'] : []), 'questions']
+});
+
+const KIND_INSTRUCTIONS: Record<QuestionKind, (n: number) => string> = {
+  multiple_choice: (n) => `${n} "multiple_choice" question(s) with 4 options and exactly one correct answer (correctIndex)`,
+  true_false: (n) => `${n} "true_false" statement(s) with options exactly ["True", "False"]`,
+  multi_select: (n) => `${n} "multi_select" question(s) with 4-6 options where two or more are correct (correctIndices)`,
+  ordering: (n) => `${n} "ordering" question(s) asking to put 3-6 steps or events in order, listed in the correct order in "items"`,
+  numeric: (n) => `${n} "numeric" question(s) whose answer is a single number, with a sensible "tolerance" and optional "unit"`,
+  short_text: (n) => `${n} "short_text" question(s) answered with one word or a short phrase, listing every acceptable spelling in "acceptedAnswers"`,
+  matching: (n) => `${n} "matching" question(s) with 3-6 "pairs" of related terms (left) and definitions or examples (right)`
+};
+
+// Bloom's levels translated into what the questions should demand of students
+const OBJECTIVE_GUIDANCE: Record<ObjectiveType, { demand: string; stems: string[] }> = {
+  remember: {
+    demand: "Recall facts, terms and basic concepts as they appear in the content.",
+    stems: ["What is...?", "Which term describes...?", "When did...?", "Who...?"]
+  },
+  understand: {
+    demand: "Explain ideas in their own words, summarize, classify and compare.",
+    stems: ["Which best explains why...?", "What is the main idea of...?", "Which example illustrates...?"]
+  },
+  apply: {
+    demand: "Use a concept or procedure in a new, concrete situation that is not in the content.",
+    stems: ["What would happen if...?", "How would you use ... to...?", "Which result follows when...?"]
+  },
+  analyze: {
+    demand: "Break information into parts and find causes, relationships and evidence.",
+    stems: ["What is the relationship between...?", "Which factor contributed most to...?", "What evidence supports...?"]
+  },
+  evaluate: {
+    demand: "Judge a claim, decision or method against criteria and justify the judgement.",
+    stems: ["Which argument is strongest...?", "Which choice is best for ... and why?", "Which claim is least supported by...?"]
+  },
+  create: {
+    demand: "Combine elements into a new plan, design, prediction or solution.",
+    stems: ["Which design would best...?", "Which plan would achieve...?", "Which hypothesis would explain...?"]
+  }
+};
+
+const objectiveRequirement = (objectiveType: ObjectiveType) => {
+  const guidance = OBJECTIVE_GUIDANCE[objectiveType] || OBJECTIVE_GUIDANCE.understand;
+  return `Cognitive demand (${objectiveType}): ${guidance.demand} Prefer stems like: ${guidance.stems.join(' ')}`;
+};
+
+const RULE_FIELDS = `economy {currencyName, startingBalance, rewardPerCorrect, costPerMiss}, combat {startingHealth, damagePerMiss, healPerCorrect}, movement {zones, stepsPerCorrect}, timer {secondsPerQuestion}`;
+
+// Teacher picks are binding; otherwise anything not explicitly avoided is fair game.
+const allowedMechanics = (options: GenerateOptions) => {
+  const selected = selectMechanics(options.preferredMechanics, options.avoidMechanics, options.preferredGenre);
+  return selected.length > 0 ? selected : GAME_MECHANICS.filter(m => !(options.avoidMechanics || []).includes(m));
+};
+
+const buildRules = (raw: any, options: GenerateOptions) => {
+  const selected = selectMechanics(options.preferredMechanics, options.avoidMechanics, options.preferredGenre);
+  if (selected.length > 0) return normalizeGameRules({ ...raw, mechanics: selected }, selected);
+  return normalizeGameRules(raw, allowedMechanics(options));
+};
+
+const rulesRequirement = (options: GenerateOptions) => {
+  const binding = selectMechanics(options.preferredMechanics, options.avoidMechanics, options.preferredGenre).length > 0;
+  const mechanics = allowedMechanics(options);
+  const choice = binding
+    ? `Use exactly these mechanics: ${mechanics.join(', ')}.`
+    : `Choose 1-2 mechanics that fit the content from: ${mechanics.join(', ') || 'none'}.`;
+  return `Game rules: ${choice} Fill "rules" with balanced numbers for each chosen mechanic (${RULE_FIELDS}).${
+    options.avoidMechanics?.length ? ` Never use: ${options.avoidMechanics.join(', ')}.` : ''}`;
+};
+
+const REGENERATE_INSTRUCTIONS: Record<RegenerateVariant, string> = {
+  replace: "Write a completely new question on a concept that none of the existing questions cover.",
+  similar: "Write another question on the same concept as the target question, from a different angle. Do not reuse its wording or options.",
+  harder: "Rewrite the target question to be harder: demand more reasoning, use closer distractors, and keep the same concept.",
+  easier: "Rewrite the target question to be easier: simplify the wording, make the distractors clearly distinguishable, and keep the same concept.",
+  different_misconception: "Keep the concept of the target question, but build the question and distractors around a different common misconception than the one listed."
+};
+
+const parseJsonResponse = (responseText: string): any => {
   try {
     const cleanText = responseText.replace(/```json/g, '').replace(/```/g, '').trim();
-    const parsed = JSON.parse(cleanText);
-    
-    // Enrich with metadata not from AI
-    return {
-      ...parsed,
-      code: Math.random().toString(36).substring(2, 6).toUpperCase(),
-      isEngine: options.gameMode === 'engine'
-    } as GameData;
+    return JSON.parse(cleanText);
   } catch (e) {
     console.error("Failed to parse game data", e);
-    throw new Error("The AI generated an invalid game format. Please try again.");
+    throw invalidFormatError();
   }
 };
 
-// Intelligent content preprocessing
-const preprocessContent = (content: string, maxLength: number): string => {
-  if (content.length <= maxLength) return content;
-  
-  // Smart truncation: preserve beginning, sample middle, and end
-  const chunkSize = Math.floor(maxLength / 3);
-  const beginning = content.slice(0, chunkSize);
-  const middleStart = Math.floor(content.length / 2) - Math.floor(chunkSize / 2);
-  const middle = content.slice(middleStart, middleStart + chunkSize);
-  const end = content.slice(-chunkSize);
-  
-  return `${beginning}\n\n[... content continues ...]\n\n${middle}\n\n[... more content ...]\n\n${end}`;
-};
-
-// Create AbortController-based timeout wrapper
-const withTimeout = <T>(promise: Promise<T>, timeoutMs: number, label: string): Promise<T> => {
-  return new Promise((resolve, reject) => {
-    const timeoutId = setTimeout(() => {
-      reject(new Error(`Timeout after ${timeoutMs}ms (${label})`));
-    }, timeoutMs);
-    
-    promise
-      .then((result) => {
-        clearTimeout(timeoutId);
-        resolve(result);
-      })
-      .catch((error) => {
-        clearTimeout(timeoutId);
-        reject(error);
-      });
-  });
-};
+// How often the model is shown its own mistakes before we settle for what repair salvaged
+const MAX_FIX_PROMPTS = 1;
 
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// Outcome of checking one response; `problems` are sent back to the model verbatim
+interface Review<T> {
+  value: T | null;
+  problems: string[];
+}
 
-export const generateGameFromContent = async (
-    options: GenerateOptions, 
-    onProgress?: (stage: string) => void
-): Promise<GameData> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  // Define retry strategies with decreasing content size and timeout
-  const strategies = [
-    { 
-      label: "Full Analysis",
-      charLimit: TIMEOUT_CONFIG.CONTENT_LIMITS.HIGH,
-      timeout: TIMEOUT_CONFIG.INITIAL_TIMEOUT,
-      temperature: 0.4
-    },
-    { 
-      label: "Condensed Summary",
-      charLimit: TIMEOUT_CONFIG.CONTENT_LIMITS.MEDIUM,
-      timeout: TIMEOUT_CONFIG.FALLBACK_TIMEOUT,
-      temperature: 0.5
-    },
-    { 
-      label: "Key Concepts",
-      charLimit: TIMEOUT_CONFIG.CONTENT_LIMITS.LOW,
-      timeout: TIMEOUT_CONFIG.MINIMAL_TIMEOUT,
-      temperature: 0.6
+const buildFixPrompt = (prompt: string, responseText: string, problems: string[]) => `${prompt}
+        YOUR PREVIOUS RESPONSE:
+        ${responseText}
+
+        IT HAS THESE PROBLEMS:
+        ${problems.map(problem => `- ${problem}`).join('\n        ')}
+
+        Return the complete corrected JSON with the same structure.
+      `;
+
+interface RequestHooks {
+  onProgress?: (stage: string) => void;
+  // The response text so far, after every streamed chunk
+  onText?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+const cancelledError = () => createLLMError('cancelled', GENERATION_CANCELLED);
+const invalidFormatError = () => createLLMError('invalid_response', "The AI generated an invalid game format. Please try again.");
+
+// Rejects with the abort reason: a timeout or the teacher cancelling
+const whenAborted = (signal: AbortSignal) => new Promise<never>((_, reject) => {
+  const fail = () => reject(signal.reason instanceof Error ? signal.reason : cancelledError());
+  if (signal.aborted) fail();
+  else signal.addEventListener('abort', fail, { once: true });
+});
+
+// A signal for one model call that aborts when the caller's signal does or
+// when the call runs past its timeout
+const withDeadline = (timeoutMs: number, label: string, parent?: AbortSignal) => {
+  const controller = new AbortController();
+  const cancel = () => controller.abort(cancelledError());
+  const timer = setTimeout(() => controller.abort(createLLMError('timeout', `Timeout after ${timeoutMs}ms (${label})`)), timeoutMs);
+  if (parent?.aborted) cancel();
+  else parent?.addEventListener('abort', cancel, { once: true });
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', cancel);
     }
-  ];
+  };
+};
 
-  let lastError: Error | null = null;
+// Collects a streamed response. A timeout or cancel aborts the network request
+// itself, so nothing keeps downloading after the promise has rejected.
+const streamResponse = async (
+  provider: LLMProvider,
+  request: JsonRequest,
+  timeoutMs: number,
+  label: string,
+  hooks: RequestHooks
+): Promise<string> => {
+  const deadline = withDeadline(timeoutMs, label, hooks.signal);
+  let text = '';
+  const read = async () => {
+    for await (const chunk of provider.streamJson({ ...request, signal: deadline.signal })) {
+      if (deadline.signal.aborted) return;
+      text += chunk;
+      hooks.onText?.(text);
+    }
+  };
 
-  for (let i = 0; i < strategies.length; i++) {
-    const strategy = strategies[i];
-    
+  try {
+    await Promise.race([read(), whenAborted(deadline.signal)]);
+  } catch (error) {
+    throw toLLMError(error);
+  } finally {
+    deadline.dispose();
+  }
+  if (!text) throw createLLMError('invalid_response', "Empty response from AI");
+  return text;
+};
+
+// Sends a prompt and, while the review finds problems, re-prompts with them.
+const requestReviewed = async <T>(
+  provider: LLMProvider,
+  prompt: string,
+  schema: object,
+  temperature: number,
+  timeoutMs: number,
+  label: string,
+  review: (parsed: any) => Review<T>,
+  hooks: RequestHooks = {}
+): Promise<T> => {
+  let currentPrompt = prompt;
+
+  for (let fix = 0; ; fix++) {
+    const responseText = await streamResponse(provider, { prompt: currentPrompt, schema, temperature }, timeoutMs, label, hooks);
+
+    let result: Review<T>;
     try {
-      if (onProgress) onProgress(i === 0 ? "Analyzing content..." : `Retrying with ${strategy.label.toLowerCase()}...`);
-      
-      const processedContent = preprocessContent(options.content, strategy.charLimit);
-      
-      const prompt = `
+      result = review(parseJsonResponse(responseText));
+    } catch {
+      result = { value: null, problems: ["The response is not valid JSON."] };
+    }
+
+    if (result.problems.length === 0 || fix >= MAX_FIX_PROMPTS) {
+      if (result.value !== null) return result.value;
+      throw invalidFormatError();
+    }
+
+    console.warn(`${label}: asking the model to fix ${result.problems.length} problem(s)`, result.problems);
+    hooks.onProgress?.("Fixing problems in the generated questions...");
+    currentPrompt = buildFixPrompt(prompt, responseText, result.problems);
+  }
+};
+
+interface GeneratedBatch {
+  details: GameData;
+  questions: Question[];
+}
+
+const repairBatch = (includeGameDetails: boolean, parsed: any) => {
+  // Follow-up batches only carry questions, so there is no title or theme to repair
+  const { value: repaired } = repairGame(includeGameDetails ? parsed : { title: "-", theme: "default", questions: parsed?.questions });
+  const errors = validateGame(repaired).filter(issue => issue.severity === 'error');
+  const broken = new Set(errors.map(issue => issue.questionIndex));
+  const batch: GeneratedBatch = { details: repaired, questions: repaired.questions.filter((_, i) => !broken.has(i)) };
+  return { batch, errors };
+};
+
+// Repairs a batch, reports what is still wrong and keeps only the valid questions.
+const reviewBatch = (includeGameDetails: boolean) => (parsed: any): Review<GeneratedBatch> => {
+  const { batch, errors } = repairBatch(includeGameDetails, parsed);
+  return { value: batch, problems: errors.map(issue => `${issue.path}: ${issue.message}`) };
+};
+
+// The finished questions of a batch that is still streaming, prepared the way
+// the final review will prepare them
+const previewBatch = (text: string, includeGameDetails: boolean, prepare: (parsed: any) => any) => {
+  const partial = parsePartialJson(text);
+  const parsed: any = partial?.value;
+  if (!partial || !parsed || typeof parsed !== 'object') return null;
+
+  const items: any[] = (Array.isArray(parsed.questions) ? parsed.questions : []).filter((item: any) => item && typeof item === 'object');
+  const finished = items.filter(item => partial.isComplete(item));
+  const drafting = items.find(item => !partial.isComplete(item));
+  const { batch } = repairBatch(includeGameDetails, prepare({ ...parsed, questions: finished }));
+  return {
+    details: includeGameDetails && typeof parsed.title === 'string' ? batch.details : null,
+    questions: batch.questions,
+    drafting: typeof drafting?.text === 'string' ? drafting.text : undefined
+  };
+};
+
+const normalizeQuote = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Swaps the section ids the model cites for their labels (falling back to the
+// section each question was planned for) and attaches the quoted sentence,
+// referenced to whichever section actually contains it.
+const citeSources = (parsed: any, chunks: ContentChunk[], planned: (string | undefined)[]) => {
+  const byId = new Map(chunks.map(chunk => [chunk.id, chunk]));
+  const questions: any[] = Array.isArray(parsed?.questions) ? parsed.questions : [];
+
+  return {
+    ...parsed,
+    questions: questions.map((q, i) => {
+      const cited = byId.get(String(q?.chunkId || '').trim().toUpperCase()) ?? byId.get(planned[i] || '');
+      const quote = typeof q?.sourceQuote === 'string' ? q.sourceQuote.trim() : '';
+      const needle = normalizeQuote(quote);
+      const containing = needle
+        ? [cited, ...chunks].find(chunk => chunk && normalizeQuote(chunk.text).includes(needle))
+        : undefined;
+      const origin = containing || cited;
+
+      return {
+        ...q,
+        chunk: cited ? chunkTitle(cited) : undefined,
+        source: quote && origin ? { ref: origin.label, quote, material: origin.sourceLabel } : undefined
+      };
+    })
+  };
+};
+
+// Figures the sections mention, e.g. ["F1", "F4"]
+const chunkFigureIds = (chunks: ContentChunk[]): string[] =>
+  chunks.flatMap(chunk => Array.from(chunk.text.matchAll(FIGURE_MARKER_PATTERN), match => match[1]));
+
+// Turns the figure ids the model picked into image references, dropping any
+// that are not figures of this game
+const attachFigures = (parsed: any, figureIds: Set<string>) => {
+  const known = (id: unknown) => {
+    const value = typeof id === 'string' ? id.trim().toUpperCase() : '';
+    return figureIds.has(value) ? value : null;
+  };
+  const questions: any[] = Array.isArray(parsed?.questions) ? parsed.questions : [];
+  return {
+    ...parsed,
+    questions: questions.map(({ imageId, optionImageIds, ...q }) => ({
+      ...q,
+      image: known(imageId) || undefined,
+      optionImages: Array.isArray(optionImageIds) ? optionImageIds.map(known) : undefined
+    }))
+  };
+};
+
+// Matches what RichText renders in the player and host views
+const NOTATION_REQUIREMENT =
+  'Write math in LaTeX between $...$ inline, or $$...$$ on its own, e.g. "$\\frac{1}{2}mv^2$"; write chemical formulas and equations with mhchem, e.g. "$\\ce{2H2 + O2 -> 2H2O}$". ' +
+  'Use **bold**, *italics*, `code` and ``` fenced code blocks only where they help; no other Markdown or HTML. ' +
+  'Escape every backslash in JSON strings and write a literal dollar sign as \\$.';
+
+const figureRequirement = (chunks: ContentChunk[]): string | null => {
+  if (chunkFigureIds(chunks).length === 0) return null;
+  return 'Figures from the material appear as "[Figure F2: description]" lines; you only know them by their description. ' +
+    'When a question is about what a figure shows, set "imageId" to its id, e.g. "F2", and word the question so students answer by looking at it. ' +
+    'For multiple_choice or multi_select questions whose answers are figures, set "optionImageIds" to one figure id per option ("" for none) and keep a short text label on every option. ' +
+    'Use each figure at most once and only where it helps.';
+};
+
+const bundleMedia = (sources?: SourceMaterial[]): MediaAsset[] =>
+  (sources || []).flatMap(source => source.figures || []);
+
+const finalizeGame = (parsed: any, questions: Question[], options: GenerateOptions): GameData => {
+  const media = bundleMedia(options.sources);
+  // Enrich with metadata not from AI
+  return {
+    ...parsed,
+    questions: questions.map((q, i) => ({ ...q, id: String(i + 1) })),
+    isEngine: options.gameMode === 'engine',
+    rules: options.gameMode === 'engine' ? buildRules(parsed?.rules, options) : undefined,
+    // Figures are kept once, on the game, rather than again on every source
+    media: media.length > 0 ? media : undefined,
+    generation: {
+      content: options.content,
+      objective: options.objective,
+      objectiveType: options.objectiveType,
+      sources: options.sources?.map(({ figures, ...source }) => source)
+    }
+  } as GameData;
+};
+
+const contentChunks = (options: { content: string; sources?: SourceMaterial[] }) =>
+  options.sources && options.sources.length > 0 ? chunkSources(options.sources) : splitIntoChunks(options.content);
+
+// Backoff that ends early, rejecting, when the signal aborts
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const cancel = () => {
+    clearTimeout(timer);
+    reject(cancelledError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', cancel);
+    resolve();
+  }, ms);
+  if (signal?.aborted) cancel();
+  else signal?.addEventListener('abort', cancel, { once: true });
+});
+
+const buildGamePrompt = (
+  options: GenerateOptions,
+  chunks: ContentChunk[],
+  plannedChunks: string[],
+  kinds: QuestionKind[],
+  coveredConcepts: string[],
+  includeGameDetails: boolean
+): string => {
+  const kindCounts = Object.entries(countKinds(kinds)) as [QuestionKind, number][];
+  const kindSummary = kindCounts.map(([kind, n]) => KIND_INSTRUCTIONS[kind](n)).join('; ');
+  const requirements = [
+    `Create EXACTLY ${kinds.length} questions: ${kindSummary}.`,
+    "Output JSON only.",
+    `Theme: ${options.gameMode === 'engine' ? (options.preferredGenre || "Adventure") : "Quiz"}.`,
+    "Every question must test a different concept.",
+    objectiveRequirement(options.objectiveType),
+    NOTATION_REQUIREMENT
+  ];
+  const included = new Set(chunks.map(chunk => chunk.id));
+  const spread = new Map<string, number>();
+  plannedChunks.filter(id => included.has(id)).forEach(id => spread.set(id, (spread.get(id) || 0) + 1));
+  if (spread.size > 0) {
+    requirements.push(`Spread the questions across the content sections: ${Array.from(spread, ([id, n]) => `${n} from ${id}`).join(', ')}.`);
+  }
+  requirements.push('Set "chunkId" on every question to the id of the section it is based on, e.g. "S1".');
+  requirements.push('Set "sourceQuote" to the sentence from that section that supports the correct answer, copied word for word.');
+  const figures = figureRequirement(chunks);
+  if (figures) requirements.push(figures);
+  if (coveredConcepts.length > 0) {
+    requirements.push(`These concepts are already covered, do NOT reuse them: ${coveredConcepts.join('; ')}.`);
+  }
+  if (includeGameDetails && options.gameMode === 'engine') {
+    requirements.push(rulesRequirement(options));
+  }
+
+  return `
         You are an expert game designer.
-        TASK: Create a ${options.gameMode} game JSON for Learning Objective: "${options.objective}" (${options.objectiveType}).
+        TASK: ${includeGameDetails
+          ? `Create a ${options.gameMode} game JSON for Learning Objective: "${options.objective}" (${options.objectiveType}).`
+          : `Write more questions for an existing ${options.gameMode} game. Learning Objective: "${options.objective}" (${options.objectiveType}).`}
         
-        CONTENT TO BASE QUESTIONS ON:
-        ${processedContent}
+        CONTENT TO BASE QUESTIONS ON (split into sections marked [id: label]):
+        ${formatChunks(chunks)}
         
         REQUIREMENTS:
-        1. Create EXACTLY 5 questions.
-        2. Output JSON only.
-        3. Theme: ${options.gameMode === 'engine' ? (options.preferredGenre || "Adventure") : "Quiz"}.
+        ${requirements.map((requirement, i) => `${i + 1}. ${requirement}`).join('\n        ')}
         
         OUTPUT SCHEMA:
         {
-            "title": "string",
+            ${includeGameDetails ? `"title": "string",
             "description": "string",
             "theme": "string",
-            "questions": [
+            ${options.gameMode === 'engine' ? `"rules": { "mechanics": ["timer"], "timer": { "secondsPerQuestion": 20 } },
+            ` : ''}` : ''}"questions": [
             {
+                "kind": "multiple_choice",
                 "id": "1",
                 "text": "Question?",
                 "options": ["A", "B", "C", "D"],
                 "correctIndex": 0,
                 "explanation": "Why?",
                 "concept": "Topic",
-                "misconception": "Wrong thought"
+                "misconception": "Wrong thought",
+                "chunkId": "S1",
+                "sourceQuote": "Sentence from the content"
             }
             ]
         }
+        Other kinds replace "options"/"correctIndex" with their own answer fields:
+        multi_select: "options", "correctIndices"; ordering: "items"; numeric: "answer", "tolerance", "unit";
+        short_text: "acceptedAnswers"; matching: "pairs" of {"left", "right"}.
       `;
+};
 
-      const responsePromise = ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: prompt,
-        config: {
-            temperature: strategy.temperature,
-            thinkingConfig: { thinkingBudget: 0 },
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                title: { type: Type.STRING },
-                description: { type: Type.STRING },
-                theme: { type: Type.STRING },
-                questions: {
-                    type: Type.ARRAY,
-                    items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        id: { type: Type.STRING },
-                        text: { type: Type.STRING },
-                        options: { type: Type.ARRAY, items: { type: Type.STRING } },
-                        correctIndex: { type: Type.INTEGER },
-                        explanation: { type: Type.STRING },
-                        concept: { type: Type.STRING },
-                        misconception: { type: Type.STRING }
-                    }
-                    }
-                }
-                }
-            }
-        }
-      });
-
-      const response = await withTimeout(
-        responsePromise,
-        strategy.timeout,
-        strategy.label
-      ) as GenerateContentResponse;
+// Runs one model call through the shrinking-content retry strategies.
+const generateWithFallback = async <T>(
+  provider: LLMProvider,
+  chunks: ContentChunk[],
+  buildPrompt: (chunks: ContentChunk[]) => string,
+  schema: object,
+  review: (parsed: any) => Review<T>,
+  stage: string,
+  hooks: RequestHooks
+): Promise<T> => {
+  const attempts: LLMAttempt[] = [];
 
-      if (!response.text) {
-        throw new Error("Empty response from AI");
-      }
+  for (let i = 0; i < STRATEGIES.length; i++) {
+    const strategy = STRATEGIES[i];
+    if (hooks.signal?.aborted) throw cancelledError();
+    
+    try {
+      hooks.onProgress?.(i === 0 ? stage : `Retrying with ${strategy.label.toLowerCase()}...`);
+      
+      // Smaller strategies keep the highest-priority sections that still fit
+      const included = packChunks(chunks, strategy.charLimit);
 
-      if (onProgress) onProgress("Finalizing game...");
-      return parseGameResponse(response.text, options);
+      return await requestReviewed(
+        provider,
+        buildPrompt(included),
+        schema,
+        strategy.temperature,
+        strategy.timeout,
+        strategy.label,
+        review,
+        hooks
+      );
 
     } catch (error: any) {
-        lastError = error;
-        console.warn(`Strategy '${strategy.label}' failed:`, error.message);
+        if (hooks.signal?.aborted) throw cancelledError();
+        const failure = toLLMError(error);
+        attempts.push({ label: strategy.label, kind: failure.kind, message: failure.message });
+        console.warn(`Strategy '${strategy.label}' failed:`, failure.message);
+
+        // Less content only helps with failures such as timeouts and malformed
+        // output; a bad key or a safety block would just fail again
+        if (!failure.retryable) {
+          throw createLLMError(failure.kind, failure.message, { status: failure.status, attempts, cause: failure });
+        }
         
         // Add backoff before next retry if not last attempt
-        if (i < strategies.length - 1) {
+        if (i < STRATEGIES.length - 1) {
             const backoffMs = 1500 * (i + 1);
-            await delay(backoffMs);
+            await delay(backoffMs, hooks.signal);
         }
     }
   }
 
-  throw new Error("We couldn't generate a game from this content after multiple attempts. Please try using a shorter document or pasting a summary.");
-};
\ No newline at end of file
+  throw createLLMError(
+    attempts[attempts.length - 1].kind,
+    "We couldn't generate a game from this content after multiple attempts. Please try using a shorter document or pasting a summary.",
+    { attempts }
+  );
+};
+
+export const generateGameFromContent = async (
+    options: GenerateOptions, 
+    onProgress?: (stage: string) => void,
+    provider: LLMProvider = llmProvider
+): Promise<GameData> => {
+  const total = clampQuestionCount(options.questionCount);
+  const plan = planQuestionKinds(total, options.typeMix);
+  // Room for a couple of extra batches when deduplication drops questions
+  const maxBatches = Math.ceil(total / BATCH_SIZE) + 2;
+
+  // Sections most relevant to the objective are sent first, and questions are
+  // spread across them instead of clustering on the opening pages. Bundles
+  // share both the content budget and the questions by source weight.
+  const weights = options.sources && options.sources.length > 1 ? sourceWeights(options.sources) : undefined;
+  const ranked = rankChunks(contentChunks(options), options.objective);
+  const selected = packChunks(ranked, TIMEOUT_CONFIG.CONTENT_LIMITS.HIGH, weights);
+  const coverage = planChunkCoverage(selected, total, weights);
+  const figureIds = new Set(bundleMedia(options.sources).map(asset => asset.id));
+
+  let gameDetails: GameData | null = null;
+  const questions: Question[] = [];
+  const concepts = new Map<string, string>(); // normalized -> label as written
+
+  for (let batch = 0; batch < maxBatches && questions.length < total; batch++) {
+    const kinds = plan.slice(questions.length, questions.length + BATCH_SIZE);
+    const includeGameDetails = gameDetails === null;
+    const stage = total <= BATCH_SIZE && batch === 0
+      ? "Analyzing content..."
+      : `Writing questions ${questions.length + 1}-${questions.length + kinds.length} of ${total}...`;
+
+    const plannedChunks = coverage.slice(questions.length, questions.length + kinds.length);
+    const batchChunks = [
+      ...selected.filter(chunk => plannedChunks.includes(chunk.id)),
+      ...selected.filter(chunk => !plannedChunks.includes(chunk.id))
+    ];
+
+    const prepare = (parsed: any) => attachFigures(citeSources(parsed, ranked, plannedChunks), figureIds);
+    const onText = options.onPreview && ((text: string) => {
+      const preview = previewBatch(text, includeGameDetails, prepare);
+      if (!preview) return;
+      const seen = new Set(concepts.keys());
+      const fresh = preview.questions.filter(question => {
+        const key = normalizeConcept(question.concept || question.text || '');
+        if (!key || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+      options.onPreview!({
+        details: gameDetails ?? preview.details,
+        questions: [...questions, ...fresh].slice(0, total),
+        drafting: preview.drafting,
+        total
+      });
+    });
+
+    const batchResult = await generateWithFallback(
+      provider,
+      batchChunks,
+      (included) => buildGamePrompt(options, included, plannedChunks, kinds, Array.from(concepts.values()), includeGameDetails),
+      includeGameDetails ? gameSchema(kinds, options.gameMode === 'engine') : questionsSchema(kinds),
+      (parsed) => reviewBatch(includeGameDetails)(prepare(parsed)),
+      stage,
+      { onProgress, onText, signal: options.signal }
+    );
+    if (includeGameDetails) gameDetails = batchResult.details;
+
+    for (const question of batchResult.questions) {
+      const key = normalizeConcept(question.concept || question.text || '');
+      if (!key || concepts.has(key)) continue;
+      concepts.set(key, question.concept);
+      questions.push(question);
+      if (questions.length >= total) break;
+    }
+  }
+
+  if (questions.length < total) {
+    console.warn(`Generated ${questions.length} of ${total} requested questions after deduplication`);
+  }
+  if (questions.length < Math.min(total, QUESTION_COUNT_LIMITS.MIN)) {
+    throw createLLMError('invalid_response', `Only ${questions.length} usable questions came back after removing duplicates. Try a broader learning objective or more content.`);
+  }
+
+  if (onProgress) onProgress("Finalizing game...");
+  return finalizeGame(gameDetails, questions, options);
+};
+
+// A game from the questions streamed so far, for teachers who stop generation
+// early to start reviewing
+export const gameFromPreview = (preview: GenerationPreview, options: GenerateOptions): GameData =>
+  finalizeGame(preview.details ?? repairGame({}).value, preview.questions, options);
+
+const normalizeConcept = (concept: string) => concept.trim().toLowerCase();
+
+// Generates a single replacement question without rerunning the whole game.
+export const regenerateQuestion = async (options: RegenerateOptions, provider: LLMProvider = llmProvider): Promise<Question> => {
+  const others = options.existingQuestions.filter(q => q.id !== options.target.id);
+  const takenConcepts = new Set(others.map(q => normalizeConcept(q.concept)));
+  // "Replace" must move away from the target's concept too; the other variants keep it.
+  if (options.variant === 'replace') takenConcepts.add(normalizeConcept(options.target.concept));
+
+  // Stay in the target's section unless the teacher asked for something new
+  const chunks = contentChunks(options);
+  const ranked = rankChunks(chunks, `${options.objective} ${options.target.concept} ${options.target.text}`);
+  const home = options.variant === 'replace' ? undefined : chunks.find(chunk => chunkTitle(chunk) === options.target.chunk);
+  const included = packChunks(home ? [home, ...ranked.filter(chunk => chunk.id !== home.id)] : ranked, TIMEOUT_CONFIG.CONTENT_LIMITS.HIGH);
+  const figureIds = new Set((options.media || []).map(asset => asset.id));
+  const figures = figureRequirement(included);
+  const prompt = `
+    You are an expert assessment designer.
+    TASK: Write ONE question for Learning Objective: "${options.objective}" (${options.objectiveType}).
+
+    CONTENT TO BASE THE QUESTION ON (split into sections marked [id: label]):
+    ${formatChunks(included)}
+
+    TARGET QUESTION:
+    ${JSON.stringify(options.target)}
+
+    EXISTING QUESTIONS (do not duplicate their concepts or wording):
+    ${others.map(q => `- [${q.concept}] ${q.text}`).join('\n')}
+
+    INSTRUCTIONS:
+    1. ${REGENERATE_INSTRUCTIONS[options.variant]}
+    2. Do not use any of these concepts: ${Array.from(takenConcepts).join(', ') || 'none'}.
+    3. Keep the question type: ${KIND_INSTRUCTIONS[options.target.kind](1)}.
+    4. ${objectiveRequirement(options.objectiveType)}
+    5. Set "chunkId" to the id of the section the question is based on${home ? `, preferably ${home.id}` : ''}.
+    6. Set "sourceQuote" to the sentence from that section that supports the correct answer, copied word for word.
+    7. ${NOTATION_REQUIREMENT}
+    8. Output JSON only.${figureIds.size > 0 && figures ? `
+    9. ${figures}` : ''}
+  `;
+
+  const attempts: LLMAttempt[] = [];
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      const question = await requestReviewed(
+        provider,
+        prompt,
+        QUESTION_SCHEMAS[options.target.kind],
+        0.7,
+        TIMEOUT_CONFIG.MINIMAL_TIMEOUT,
+        `Regenerate (${options.variant})`,
+        (parsed) => {
+          const labeled = attachFigures(citeSources({ questions: [parsed] }, chunks, [home?.id]), figureIds).questions[0];
+          const { value } = repairQuestion({ ...labeled, kind: options.target.kind }, 0);
+          const errors = validateQuestion(value, 0).filter(issue => issue.severity === 'error');
+          return {
+            value: { ...value, id: crypto.randomUUID() },
+            problems: errors.map(issue => `${issue.path.replace(/^questions\.0\./, '')}: ${issue.message}`)
+          };
+        },
+        { signal: options.signal }
+      );
+
+      // One more try if the model ignored the concept constraint
+      if (attempt === 0 && takenConcepts.has(normalizeConcept(question.concept || ''))) {
+        console.warn(`Regenerated question duplicates concept '${question.concept}', retrying`);
+        continue;
+      }
+      return question;
+    } catch (error: any) {
+      if (options.signal?.aborted) throw cancelledError();
+      const failure = toLLMError(error);
+      attempts.push({ label: `Attempt ${attempt + 1}`, kind: failure.kind, message: failure.message });
+      console.warn(`Question regeneration attempt ${attempt + 1} failed:`, failure.message);
+      if (!failure.retryable) throw createLLMError(failure.kind, failure.message, { status: failure.status, attempts, cause: failure });
+    }
+  }
+
+  console.error("Question regeneration failed", attempts);
+  throw createLLMError(attempts[attempts.length - 1].kind, "We couldn't regenerate this question. Please try again.", { attempts });
+};
+
+// Questions whose answers are options the model can pick without the key
+type CheckableQuestion = Extract<Question, { kind: 'multiple_choice' | 'true_false' | 'multi_select' }>;
+
+export interface AnswerDisagreement {
+  questionId: string;
+  expected: number[]; // Option indexes marked correct
+  chosen: number[];   // What the model picked answering blind
+}
+
+const optionLetter = (i: number) => String.fromCharCode(65 + i);
+
+const ANSWERS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    answers: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          number: { type: Type.INTEGER },
+          choices: { type: Type.ARRAY, items: { type: Type.STRING } }
+        },
+        required: ['number', 'choices']
+      }
+    }
+  },
+  required: ['answers']
+};
+
+// Has the model answer the choice questions without seeing the key and returns
+// the ones where it disagrees: often a second defensible answer or a wrong key.
+export const verifyAnswers = async (
+  questions: Question[],
+  signal?: AbortSignal,
+  provider: LLMProvider = llmProvider
+): Promise<AnswerDisagreement[]> => {
+  const checkable = questions.filter((q): q is CheckableQuestion =>
+    q.kind === 'multiple_choice' || q.kind === 'true_false' || q.kind === 'multi_select');
+  if (checkable.length === 0) return [];
+
+  const listed = checkable.map((q, i) => [
+    `${i + 1}. ${q.text}${q.kind === 'multi_select' ? " (choose every correct option)" : ""}`,
+    ...q.options.map((option, j) => `   ${optionLetter(j)}) ${option}`)
+  ].join('\n')).join('\n\n');
+
+  const prompt = `
+    Answer these quiz questions as an expert in the subject would.
+    For each question give its number and the letter of the correct option; for questions that ask for every correct option, give all of their letters.
+    Answer every question, even when unsure.
+
+    ${listed}
+  `;
+
+  const chosen = await requestReviewed(
+    provider,
+    prompt,
+    ANSWERS_SCHEMA,
+    0,
+    TIMEOUT_CONFIG.MINIMAL_TIMEOUT,
+    "Answer check",
+    (parsed) => {
+      const answers = new Map<number, number[]>();
+      for (const answer of Array.isArray(parsed?.answers) ? parsed.answers : []) {
+        const letters: unknown[] = Array.isArray(answer?.choices) ? answer.choices : [];
+        answers.set(Number(answer?.number), letters.map(letter => String(letter).trim().toUpperCase().charCodeAt(0) - 65));
+      }
+      return { value: answers, problems: answers.size > 0 ? [] : ["No answers were given."] };
+    },
+    { signal }
+  );
+
+  return checkable.flatMap((q, i) => {
+    const expected = q.kind === 'multi_select' ? [...q.correctIndices].sort((a, b) => a - b) : [q.correctIndex];
+    const picked = Array.from(new Set(chosen.get(i + 1) || [])).filter(j => j >= 0 && j < q.options.length).sort((a, b) => a - b);
+    // Questions the model skipped are not disagreements
+    if (picked.length === 0 || picked.join() === expected.join()) return [];
+    return [{ questionId: q.id, expected, chosen: picked }];
+  });
+};
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GameData } from "../types";
+import { GameStorage, SavedGame } from "./game-library";
+import { CachedGame, gameCacheKey, generateGameWithCache, GenerationCache, saveCachedGame } from "./generation-cache";
+import { generateGameFromContent, GenerateOptions } from "./gemini";
+
+vi.mock("./gemini", () => ({ generateGameFromContent: vi.fn() }));
+
+const game = (title: string): GameData => ({
+  isEngine: false,
+  title,
+  description: "",
+  questions: [],
+  theme: "science"
+});
+
+const options: GenerateOptions = {
+  content: "Cells are the basic unit of life.",
+  objective: "Recall cell structure",
+  objectiveType: "remember",
+  gameMode: "legacy"
+};
+
+const memoryCache = (): GenerationCache => {
+  const games = new Map<string, CachedGame>();
+  return {
+    getGame: async (key) => games.get(key) ?? null,
+    putGame: async (key, entry) => void games.set(key, entry),
+    getDocument: async () => null,
+    putDocument: async () => undefined,
+    clear: async () => games.clear()
+  };
+};
+
+const memoryLibrary = (): GameStorage => {
+  const games = new Map<string, SavedGame>();
+  let next = 0;
+  return {
+    list: async () => Array.from(games.values()),
+    get: async (id) => games.get(id) ?? null,
+    save: async (data) => {
+      const saved = { id: `game-${++next}`, name: data.title, game: data, createdAt: 0, updatedAt: 0 };
+      games.set(saved.id, saved);
+      return saved;
+    },
+    update: async (id, data) => {
+      const saved = { ...games.get(id)!, game: data };
+      games.set(id, saved);
+      return saved;
+    },
+    rename: async () => { throw new Error("unused"); },
+    duplicate: async () => { throw new Error("unused"); },
+    remove: async (id) => void games.delete(id)
+  };
+};
+
+describe("generateGameWithCache", () => {
+  let cache: GenerationCache;
+  let library: GameStorage;
+
+  beforeEach(() => {
+    cache = memoryCache();
+    library = memoryLibrary();
+    vi.mocked(generateGameFromContent).mockReset().mockResolvedValue(game("Cells"));
+  });
+
+  it("saves a new game to the library once and reuses that entry on a cache hit", async () => {
+    const generated = await generateGameWithCache(options, undefined, false, cache, library);
+    expect(generated.fromCache).toBe(false);
+    expect(await library.list()).toHaveLength(1);
+
+    const reused = await generateGameWithCache(options, undefined, false, cache, library);
+    expect(reused.fromCache).toBe(true);
+    expect(reused.savedId).toBe(generated.savedId);
+    expect(await library.list()).toHaveLength(1);
+    expect(generateGameFromContent).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns the library entry with the teacher's edits on a cache hit", async () => {
+    const { savedId } = await generateGameWithCache(options, undefined, false, cache, library);
+    await library.update(savedId!, game("Cells, edited"));
+
+    const reused = await generateGameWithCache(options, undefined, false, cache, library);
+    expect(reused.game.title).toBe("Cells, edited");
+  });
+
+  it("saves a reused game again only after its library entry was deleted", async () => {
+    const { savedId } = await generateGameWithCache(options, undefined, false, cache, library);
+    await library.remove(savedId!);
+
+    const reused = await generateGameWithCache(options, undefined, false, cache, library);
+    expect(reused.savedId).toBeNull();
+    expect(await library.list()).toHaveLength(0);
+
+    const resavedId = await saveCachedGame(options, reused.game, cache, library);
+    expect((await cache.getGame(await gameCacheKey(options)))?.savedId).toBe(resavedId);
+
+    await generateGameWithCache(options, undefined, false, cache, library);
+    expect(await library.list()).toHaveLength(1);
+  });
+
+  it("generates and saves a new entry when asked for a fresh game", async () => {
+    await generateGameWithCache(options, undefined, false, cache, library);
+    const fresh = await generateGameWithCache(options, undefined, true, cache, library);
+    expect(fresh.fromCache).toBe(false);
+    expect(await library.list()).toHaveLength(2);
+    expect((await cache.getGame(await gameCacheKey(options)))?.savedId).toBe(fresh.savedId);
+  });
+});
@@ -0,0 +1,229 @@
+import { GameData } from "../types";
+import { openDatabase, requestToPromise, transactionDone } from "../utils/idb";
+import { clampQuestionCount } from "../utils/question-mix";
+import { ParsedDocument, ParseOptions, parseFile } from "../utils/file-processing";
+import { generateGameFromContent, GenerateOptions } from "./gemini";
+import { gameLibrary, GameStorage, saveGeneratedGame } from "./game-library";
+
+// Content-addressed cache for generated games and parsed files. Asking again
+// with the same material and settings returns the earlier result instead of
+// paying for another model call or another pass over a large PDF.
+
+interface CacheEntry<T> {
+  key: string;
+  value: T;
+  size: number;   // Approximate bytes, counted against the store's limit
+  usedAt: number;
+}
+
+// A generated game and the library entry it was saved as
+export interface CachedGame {
+  game: GameData;
+  savedId: string | null;
+}
+
+export interface GenerationCache {
+  getGame: (key: string) => Promise<CachedGame | null>;
+  putGame: (key: string, entry: CachedGame) => Promise<void>;
+  getDocument: (key: string) => Promise<ParsedDocument | null>;
+  putDocument: (key: string, document: ParsedDocument) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+// Kept apart from the game library so clearing the cache never touches saved games
+const DB_NAME = 'teachify-cache';
+const DB_VERSION = 1;
+const GAMES_STORE = 'games';
+const DOCUMENTS_STORE = 'documents';
+
+// Least recently used entries are dropped once a store grows past its limit
+const STORE_LIMITS: Record<string, number> = {
+  [GAMES_STORE]: 25 * 1024 * 1024,
+  [DOCUMENTS_STORE]: 100 * 1024 * 1024
+};
+
+// Part of every key, so results made by an older generator are not reused
+const CACHE_VERSION = 2;
+
+const gameSize = (game: GameData): number =>
+  JSON.stringify({ ...game, media: undefined }).length + (game.media || []).reduce((sum, asset) => sum + asset.blob.size, 0);
+
+const documentSize = (document: ParsedDocument): number =>
+  document.segments.reduce((sum, segment) =>
+    sum + segment.text.length + (segment.figures || []).reduce((figures, figure) => figures + figure.blob.size, 0), 0);
+
+export const createIndexedDBGenerationCache = (): GenerationCache => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        for (const name of [GAMES_STORE, DOCUMENTS_STORE]) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'key' }).createIndex('usedAt', 'usedAt');
+          }
+        }
+      });
+    }
+    return dbPromise;
+  };
+
+  const get = async <T>(storeName: string, key: string): Promise<T | null> => {
+    const db = await getDb();
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    const entry = await requestToPromise<CacheEntry<T> | undefined>(store.get(key));
+    if (entry) store.put({ ...entry, usedAt: Date.now() });
+    await transactionDone(tx);
+    return entry ? entry.value : null;
+  };
+
+  const put = async <T>(storeName: string, key: string, value: T, size: number): Promise<void> => {
+    const limit = STORE_LIMITS[storeName];
+    if (size > limit) return;
+    const db = await getDb();
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    store.put({ key, value, size, usedAt: Date.now() } as CacheEntry<T>);
+
+    // Walks from the most recently used down and drops whatever no longer fits
+    let total = 0;
+    const cursorRequest = store.index('usedAt').openCursor(null, 'prev');
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      total += (cursor.value as CacheEntry<T>).size;
+      if (total > limit) cursor.delete();
+      cursor.continue();
+    };
+    await transactionDone(tx);
+  };
+
+  return {
+    getGame: (key) => get<CachedGame>(GAMES_STORE, key),
+    putGame: (key, entry) => put(GAMES_STORE, key, entry, gameSize(entry.game)),
+    getDocument: (key) => get<ParsedDocument>(DOCUMENTS_STORE, key),
+    putDocument: (key, document) => put(DOCUMENTS_STORE, key, document, documentSize(document)),
+    clear: async () => {
+      const db = await getDb();
+      const tx = db.transaction([GAMES_STORE, DOCUMENTS_STORE], 'readwrite');
+      tx.objectStore(GAMES_STORE).clear();
+      tx.objectStore(DOCUMENTS_STORE).clear();
+      await transactionDone(tx);
+    }
+  };
+};
+
+export const generationCache = createIndexedDBGenerationCache();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const sha256 = async (data: string | ArrayBuffer): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', typeof data === 'string' ? new TextEncoder().encode(data) : data));
+
+// Whitespace and line-ending differences between two copies of the same text
+// should not miss the cache
+const normalizeText = (text: string) =>
+  text
+    .normalize('NFC')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const sorted = (values?: string[]) => values && values.length > 0 ? [...values].sort() : undefined;
+
+// Everything that changes what the generator is asked for. Callbacks, the
+// abort signal and source ids are left out.
+export const gameCacheKey = (options: GenerateOptions): Promise<string> =>
+  sha256(JSON.stringify({
+    version: CACHE_VERSION,
+    content: normalizeText(options.content),
+    sources: options.sources?.map(source => ({ label: source.label, weight: source.weight, text: normalizeText(source.text) })),
+    objective: normalizeText(options.objective),
+    objectiveType: options.objectiveType,
+    gameMode: options.gameMode,
+    preferredGenre: options.preferredGenre || undefined,
+    preferredMechanics: sorted(options.preferredMechanics),
+    avoidMechanics: sorted(options.avoidMechanics),
+    questionCount: clampQuestionCount(options.questionCount),
+    typeMix: options.typeMix
+  }));
+
+export const documentCacheKey = async (file: File, options: ParseOptions): Promise<string> =>
+  sha256(JSON.stringify({
+    version: CACHE_VERSION,
+    file: await sha256(await file.arrayBuffer()),
+    pages: options.pages,
+    includeNotes: options.includeNotes
+  }));
+
+// A cache that cannot be read or written (private browsing, full disk, no
+// IndexedDB) only costs the saving, never the result
+const quietly = async <T>(operation: () => Promise<T>, fallback: T): Promise<T> => {
+  try {
+    return await operation();
+  } catch (error) {
+    console.warn("Generation cache unavailable", error);
+    return fallback;
+  }
+};
+
+export interface CachedGeneration extends CachedGame {
+  fromCache: boolean;
+}
+
+// New games are saved to the library once. A reused game comes back as its
+// library entry, with the teacher's edits, and `savedId` null when that entry
+// was deleted. `fresh` skips the lookup but still stores the new result,
+// replacing the old one.
+export const generateGameWithCache = async (
+  options: GenerateOptions,
+  onProgress?: (stage: string) => void,
+  fresh = false,
+  cache: GenerationCache = generationCache,
+  library: GameStorage = gameLibrary
+): Promise<CachedGeneration> => {
+  const key = await quietly(() => gameCacheKey(options), null);
+  const cached = key && !fresh ? await quietly(() => cache.getGame(key), null) : null;
+  if (cached) {
+    const saved = cached.savedId ? await quietly(() => library.get(cached.savedId!), null) : null;
+    return { game: saved ? saved.game : cached.game, savedId: saved ? saved.id : null, fromCache: true };
+  }
+
+  const game = await generateGameFromContent(options, onProgress);
+  const savedId = await saveGeneratedGame(game, library);
+  if (key) await quietly(() => cache.putGame(key, { game, savedId }), undefined);
+  return { game, savedId, fromCache: false };
+};
+
+// Saves a reused game whose library entry was deleted, and reuses the new entry next time
+export const saveCachedGame = async (
+  options: GenerateOptions,
+  game: GameData,
+  cache: GenerationCache = generationCache,
+  library: GameStorage = gameLibrary
+): Promise<string | null> => {
+  const savedId = await saveGeneratedGame(game, library);
+  const key = await quietly(() => gameCacheKey(options), null);
+  if (key && savedId) await quietly(() => cache.putGame(key, { game, savedId }), undefined);
+  return savedId;
+};
+
+// parseFile, memoized by the file's bytes and the pages and notes asked for
+export const parseFileWithCache = async (
+  file: File,
+  options: ParseOptions = {},
+  cache: GenerationCache = generationCache
+): Promise<ParsedDocument> => {
+  const key = await quietly(() => documentCacheKey(file, options), null);
+  const cached = key ? await quietly(() => cache.getDocument(key), null) : null;
+  if (options.signal?.aborted) throw new Error("Extraction cancelled");
+  if (cached) return { ...cached, fileName: file.name };
+
+  const document = await parseFile(file, options);
+  if (key) await quietly(() => cache.putDocument(key, document), undefined);
+  return document;
+};
@@ -0,0 +1,84 @@
+// What went wrong in a model call, in terms a teacher can act on. Every
+// provider reports failures as an LLMError; `retryable` says whether the same
+// request with less content stands a chance of succeeding.
+
+export type LLMErrorKind =
+  | 'auth'             // Missing, invalid or unauthorized API key
+  | 'quota'            // Rate limit or usage quota exhausted
+  | 'safety'           // The model's safety filters blocked the prompt or response
+  | 'content_too_long' // The prompt is over the model's input limit
+  | 'timeout'
+  | 'network'          // Service unreachable, overloaded or failing
+  | 'invalid_response' // Output that is not usable JSON, or too few valid questions
+  | 'cancelled'
+  | 'unknown';
+
+export interface LLMAttempt {
+  label: string; // The strategy that was tried, e.g. "Full Analysis"
+  kind: LLMErrorKind;
+  message: string;
+}
+
+export interface LLMError extends Error {
+  kind: LLMErrorKind;
+  retryable: boolean;
+  status?: number;
+  // Every attempt made before giving up, oldest first
+  attempts: LLMAttempt[];
+}
+
+const RETRYABLE: Record<LLMErrorKind, boolean> = {
+  auth: false,
+  quota: false,
+  safety: false,
+  content_too_long: true,
+  timeout: true,
+  network: true,
+  invalid_response: true,
+  cancelled: false,
+  unknown: true
+};
+
+export const createLLMError = (
+  kind: LLMErrorKind,
+  message: string,
+  details: { status?: number; attempts?: LLMAttempt[]; cause?: unknown } = {}
+): LLMError => {
+  const error = new Error(message, { cause: details.cause }) as LLMError;
+  error.name = 'LLMError';
+  error.kind = kind;
+  error.retryable = RETRYABLE[kind];
+  error.status = details.status;
+  error.attempts = details.attempts || [];
+  return error;
+};
+
+export const isLLMError = (error: unknown): error is LLMError =>
+  error instanceof Error && typeof (error as LLMError).kind === 'string' && typeof (error as LLMError).retryable === 'boolean';
+
+const kindForStatus = (status: number, message: string): LLMErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'network';
+  if (/api[ _-]?key/i.test(message)) return 'auth';
+  if (/token|too long|too large|context length|exceeds/i.test(message)) return 'content_too_long';
+  return 'unknown';
+};
+
+export const httpError = (status: number, message: string): LLMError =>
+  createLLMError(kindForStatus(status, message), message, { status });
+
+// Classifies whatever a provider SDK or fetch threw
+export const toLLMError = (error: unknown): LLMError => {
+  if (isLLMError(error)) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof error === 'object' && error !== null && 'status' in error && typeof error.status === 'number' ? error.status : undefined;
+
+  if (status) return createLLMError(kindForStatus(status, message), message, { status, cause: error });
+  if (error instanceof Error && error.name === 'AbortError') return createLLMError('cancelled', message, { cause: error });
+  if (/api[ _-]?key/i.test(message)) return createLLMError('auth', message, { cause: error });
+  if (/quota|rate limit|RESOURCE_EXHAUSTED/i.test(message)) return createLLMError('quota', message, { cause: error });
+  if (/failed to fetch|fetch failed|network|ECONNREFUSED|ENOTFOUND/i.test(message)) return createLLMError('network', message, { cause: error });
+  return createLLMError('unknown', message, { cause: error });
+};
@@ -0,0 +1,77 @@
+import { JsonRequest, LLMProvider } from "./types";
+
+// Deterministic offline provider for development and automated runs. It builds
+// a response that satisfies the request schema without calling any model, so
+// the same sequence of requests always produces the same games.
+
+const STREAM_CHUNK_SIZE = 48;
+
+// Answer fields need values that make the question valid, not just well-typed
+const FIELD_FIXTURES: Record<string, (n: number) => unknown> = {
+  theme: () => 'default',
+  options: (n) => ['A', 'B', 'C', 'D'].map(letter => `Option ${letter} (${n})`),
+  correctIndex: () => 0,
+  correctIndices: () => [0, 2],
+  items: (n) => [1, 2, 3, 4].map(step => `Step ${step} (${n})`),
+  acceptedAnswers: (n) => [`answer ${n}`],
+  answer: (n) => n * 10,
+  tolerance: () => 0,
+  unit: () => '',
+  pairs: (n) => [1, 2, 3].map(i => ({ left: `Term ${i} (${n})`, right: `Definition ${i} (${n})` })),
+};
+
+// The prompt states how many questions it wants; default to a small game
+const requestedCount = (prompt: string) => {
+  const match = prompt.match(/EXACTLY\s+(\d+)\s+questions/i);
+  return match ? parseInt(match[1], 10) : 5;
+};
+
+export const createFixtureProvider = (): LLMProvider => {
+  let counter = 0;
+
+  const build = (schema: any, name: string, request: JsonRequest, index: number): unknown => {
+    if (schema?.anyOf) return build(schema.anyOf[index % schema.anyOf.length], name, request, index);
+    if (schema?.enum) return schema.enum[0];
+
+    const n = ++counter;
+    if (FIELD_FIXTURES[name]) return FIELD_FIXTURES[name](n);
+
+    switch (String(schema?.type).toUpperCase()) {
+      case 'OBJECT':
+        return Object.fromEntries(
+          Object.entries(schema.properties || {}).map(([key, prop]) => [key, build(prop, key, request, index)])
+        );
+      case 'ARRAY': {
+        const length = name === 'questions' ? requestedCount(request.prompt) : 1;
+        return Array.from({ length }, (_, i) => build(schema.items, name, request, i));
+      }
+      case 'INTEGER':
+      case 'NUMBER':
+        return n;
+      case 'BOOLEAN':
+        return true;
+      default:
+        return name === 'concept' ? `Concept ${n}` : `Fixture ${name} ${n}`;
+    }
+  };
+
+  const respond = (request: JsonRequest) => JSON.stringify(build(request.schema, '', request, 0));
+
+  return {
+    id: 'fixture',
+    label: "Offline fixtures",
+
+    generateJson: async (request) => {
+      request.signal?.throwIfAborted();
+      return respond(request);
+    },
+
+    streamJson: async function* (request) {
+      const text = respond(request);
+      for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+        request.signal?.throwIfAborted();
+        yield text.slice(i, i + STREAM_CHUNK_SIZE);
+      }
+    }
+  };
+};
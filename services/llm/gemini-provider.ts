@@ -0,0 +1,105 @@
+import { GenerateContentResponse, GoogleGenAI, LiveServerMessage, Modality } from "@google/genai";
+import { JsonRequest, LLMProvider, LLMProviderConfig } from "./types";
+import { createLLMError, toLLMError } from "./errors";
+
+const DEFAULT_MODEL = 'gemini-3-flash-preview';
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-12-2025';
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+// Blocked prompts come back as an empty response with a reason, not as an HTTP error
+const throwIfBlocked = (response: GenerateContentResponse) => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  const reason = response.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason) ? finishReason : null);
+  if (reason) throw createLLMError('safety', `Gemini blocked the request (${reason})`);
+};
+
+export const createGeminiProvider = (config: LLMProviderConfig): LLMProvider => {
+  // Created on first use so a missing key only fails the call that needs it
+  let client: GoogleGenAI | null = null;
+  const getClient = () => {
+    if (!config.apiKey) throw createLLMError('auth', "No Gemini API key is configured");
+    return client || (client = new GoogleGenAI({ apiKey: config.apiKey }));
+  };
+  const model = config.model || DEFAULT_MODEL;
+
+  const requestConfig = ({ schema, temperature, signal }: JsonRequest) => ({
+    abortSignal: signal,
+    temperature,
+    thinkingConfig: { thinkingBudget: 0 },
+    responseMimeType: "application/json",
+    responseSchema: schema
+  });
+
+  return {
+    id: 'gemini',
+    label: "Google Gemini",
+
+    generateJson: async (request) => {
+      let response: GenerateContentResponse;
+      try {
+        response = await getClient().models.generateContent({
+          model,
+          contents: request.prompt,
+          config: requestConfig(request)
+        });
+      } catch (error) {
+        throw toLLMError(error);
+      }
+      throwIfBlocked(response);
+      if (!response.text) throw createLLMError('invalid_response', "Empty response from AI");
+      return response.text;
+    },
+
+    streamJson: async function* (request) {
+      try {
+        const stream = await getClient().models.generateContentStream({
+          model,
+          contents: request.prompt,
+          config: requestConfig(request)
+        });
+        for await (const chunk of stream) {
+          throwIfBlocked(chunk);
+          if (chunk.text) yield chunk.text;
+        }
+      } catch (error) {
+        throw toLLMError(error);
+      }
+    },
+
+    connectLive: async (options) => {
+      const sessionPromise = getClient().live.connect({
+        model: LIVE_MODEL,
+        callbacks: {
+          onopen: options.onOpen,
+          onmessage: (message: LiveServerMessage) => {
+            const audioData = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+            if (audioData) options.onAudio(audioData);
+
+            for (const fc of message.toolCall?.functionCalls || []) {
+              const result = options.onToolCall({ id: fc.id, name: fc.name, args: (fc.args || {}) as Record<string, unknown> });
+              sessionPromise.then(session => session.sendToolResponse({
+                functionResponses: { name: fc.name, id: fc.id, response: result }
+              }));
+            }
+          },
+          onclose: options.onClose,
+          onerror: (e) => options.onError(new Error((e instanceof ErrorEvent && e.message) || "Live session error"))
+        },
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
+          },
+          tools: [{ functionDeclarations: options.tools }],
+          systemInstruction: options.systemInstruction,
+        }
+      });
+      const session = await sessionPromise;
+
+      return {
+        sendAudio: (data) => session.sendRealtimeInput({ media: { mimeType: 'audio/pcm;rate=16000', data } }),
+        close: () => session.close()
+      };
+    }
+  };
+};
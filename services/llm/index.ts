@@ -0,0 +1,34 @@
+import { createFixtureProvider } from "./fixture-provider";
+import { createGeminiProvider } from "./gemini-provider";
+import { createOpenAICompatibleProvider } from "./openai-provider";
+import { LLMProvider, LLMProviderConfig, LLMProviderId } from "./types";
+
+export * from "./types";
+export * from "./errors";
+
+const PROVIDER_IDS: LLMProviderId[] = ['gemini', 'openai', 'fixture'];
+
+// Reads the build-time settings injected by vite.config.ts
+export const readProviderConfig = (): LLMProviderConfig => {
+  const requested = (process.env.LLM_PROVIDER || 'gemini').toLowerCase() as LLMProviderId;
+  const provider = PROVIDER_IDS.includes(requested) ? requested : 'gemini';
+  return {
+    provider,
+    apiKey: provider === 'gemini' ? process.env.API_KEY : process.env.LLM_API_KEY,
+    baseUrl: process.env.LLM_BASE_URL || undefined,
+    model: process.env.LLM_MODEL || undefined
+  };
+};
+
+export const createLLMProvider = (config: LLMProviderConfig): LLMProvider => {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAICompatibleProvider(config);
+    case 'fixture':
+      return createFixtureProvider();
+    default:
+      return createGeminiProvider(config);
+  }
+};
+
+export const llmProvider: LLMProvider = createLLMProvider(readProviderConfig());
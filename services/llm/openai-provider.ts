@@ -0,0 +1,114 @@
+import { JsonRequest, LLMProvider, LLMProviderConfig } from "./types";
+import { createLLMError, httpError, toLLMError } from "./errors";
+
+// Works with any server that speaks the OpenAI chat completions API, e.g.
+// Ollama (http://localhost:11434/v1) or llama.cpp (http://localhost:8080/v1).
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_MODEL = 'llama3.1';
+
+const SYSTEM_PROMPT = "You are a JSON API. Reply with a single JSON document that matches the requested schema and nothing else.";
+
+// Converts the @google/genai `Type` notation (OBJECT, STRING, ...) to plain JSON Schema.
+export const toJsonSchema = (schema: any): any => {
+  if (!schema || typeof schema !== 'object') return schema;
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+
+  const result: any = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'propertyOrdering') {
+      // Gemini-only; JSON Schema servers follow the order of `properties`
+      continue;
+    } else if (key === 'type' && typeof value === 'string') {
+      result.type = value.toLowerCase();
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      result.properties = Object.fromEntries(Object.entries(value).map(([name, prop]) => [name, toJsonSchema(prop)]));
+    } else if (key === 'items' || key === 'anyOf') {
+      result[key] = toJsonSchema(value);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+};
+
+export const createOpenAICompatibleProvider = (config: LLMProviderConfig): LLMProvider => {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const model = config.model || DEFAULT_MODEL;
+
+  const post = async (request: JsonRequest, stream: boolean) => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal: request.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        stream,
+        temperature: request.temperature,
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: request.prompt }
+        ],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'response', schema: toJsonSchema(request.schema) }
+        }
+      })
+    }).catch(error => {
+      throw toLLMError(error);
+    });
+    if (!response.ok) {
+      // The body usually says why, e.g. that the prompt is over the context length
+      const detail = await response.text().catch(() => '');
+      throw httpError(response.status, `The model server at ${baseUrl} returned ${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 300)}` : ''}`);
+    }
+    return response;
+  };
+
+  return {
+    id: 'openai',
+    label: `OpenAI-compatible (${model})`,
+
+    generateJson: async (request) => {
+      const response = await post(request, false);
+      const data = await response.json();
+      const text = data?.choices?.[0]?.message?.content;
+      if (!text) throw createLLMError('invalid_response', "Empty response from AI");
+      return text;
+    },
+
+    // Parses the server-sent events of a streamed chat completion
+    streamJson: async function* (request) {
+      const response = await post(request, true);
+      if (!response.body) throw createLLMError('network', "The model server does not support streaming");
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+          for (const line of lines) {
+            const data = line.replace(/^data:\s*/, '').trim();
+            if (!data || !line.startsWith('data:')) continue;
+            if (data === '[DONE]') return;
+            const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+            if (delta) yield delta;
+          }
+        }
+      } finally {
+        // Also runs when the caller stops reading early, which closes the connection
+        reader.cancel().catch(() => {});
+      }
+    }
+  };
+};
@@ -0,0 +1,64 @@
+// Provider-neutral contract for every model call Teachify makes, so game
+// generation and the live host can run on Gemini, a local OpenAI-compatible
+// server or offline fixtures.
+
+import type { FunctionDeclaration } from "@google/genai";
+
+export type LLMProviderId = 'gemini' | 'openai' | 'fixture';
+
+export interface JsonRequest {
+  prompt: string;
+  // Response schema in @google/genai `Type` notation; other providers convert it
+  schema: object;
+  temperature?: number;
+  // Aborting cancels the network request and ends the stream
+  signal?: AbortSignal;
+}
+
+export interface LiveToolDeclaration {
+  name: string;
+  description: string;
+  // Same `Type` notation as JsonRequest schemas
+  parameters: FunctionDeclaration['parameters'];
+}
+
+export interface LiveToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface LiveSessionOptions {
+  systemInstruction: string;
+  tools: LiveToolDeclaration[];
+  onOpen: () => void;
+  onAudio: (base64Pcm: string) => void;
+  // The returned object is sent back to the model as the tool result
+  onToolCall: (call: LiveToolCall) => Record<string, unknown>;
+  onClose: () => void;
+  onError: (error: Error) => void;
+}
+
+export interface LiveSession {
+  // 16 kHz mono PCM16, base64 encoded
+  sendAudio: (base64Pcm: string) => void;
+  close: () => void;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  label: string;
+  // Resolves with the raw JSON text of the response
+  generateJson: (request: JsonRequest) => Promise<string>;
+  // Yields the JSON text as it arrives
+  streamJson: (request: JsonRequest) => AsyncIterable<string>;
+  // Only providers with a realtime voice API implement this
+  connectLive?: (options: LiveSessionOptions) => Promise<LiveSession>;
+}
+
+export interface LLMProviderConfig {
+  provider: LLMProviderId;
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+}
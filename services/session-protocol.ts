@@ -0,0 +1,90 @@
+import { GameData, Question, QuestionAnswer, QuestionSource } from "../types";
+
+// Shared message contract between the session server (server/) and the
+// browser client (services/session.ts). Every frame is a JSON object with a
+// `type` discriminator.
+
+export const DEFAULT_SESSION_PORT = 3001;
+export const MAX_PLAYERS_PER_ROOM = 30;
+
+export type PlayerStatus = 'waiting' | 'thinking' | 'answered' | 'correct' | 'wrong';
+
+export interface PlayerInfo {
+  id: string;
+  name: string;
+  color: string;
+  score: number;
+  streak: number;
+  status: PlayerStatus;
+}
+
+export interface LeaderboardEntry {
+  playerId: string;
+  name: string;
+  color: string;
+  score: number;
+}
+
+// The subset of GameData a student needs before the first question arrives.
+export type GameSummary = Pick<GameData, 'title' | 'description' | 'theme' | 'isEngine' | 'rules'> & {
+  code: string;
+  questionCount: number;
+};
+
+// Game images travel as data URLs; the host sends only the ones its questions show
+export interface PublicImage {
+  src: string;
+  alt: string;
+}
+
+// What students see while a question is open: everything that could give the
+// answer away stays on the server until the reveal. Ordering items and the
+// right-hand side of matching pairs arrive shuffled.
+export type PublicQuestion = Pick<Question, 'id' | 'text' | 'concept'> & { image?: PublicImage } & (
+  | { kind: 'multiple_choice' | 'true_false' | 'multi_select'; options: string[]; optionImages?: (PublicImage | null)[] }
+  | { kind: 'ordering'; items: string[] }
+  | { kind: 'numeric'; unit?: string }
+  | { kind: 'short_text' }
+  | { kind: 'matching'; left: string[]; right: string[] }
+);
+
+export interface AnswerResult {
+  answered: boolean;
+  correct: boolean;
+  points: number;
+  score: number;
+  streak: number;
+}
+
+export type GameLookupStatus = 'found' | 'not_found' | 'started' | 'full';
+
+export type JoinErrorReason = Exclude<GameLookupStatus, 'found'> | 'name_taken' | 'invalid';
+
+// --- Client -> Server ---
+
+export type ClientMessage =
+  | { type: 'host_create'; game: GameData; images?: Record<string, PublicImage> }
+  | { type: 'lookup'; code: string }
+  | { type: 'join'; code: string; name: string; rejoinToken?: string }
+  | { type: 'question_start'; index: number }
+  | { type: 'answer_submit'; questionIndex: number; answer: QuestionAnswer }
+  | { type: 'reveal'; index: number }
+  | { type: 'game_over' };
+
+// --- Server -> Client ---
+
+export type ServerMessage =
+  | { type: 'room_created'; code: string }
+  | { type: 'lookup_result'; code: string; status: GameLookupStatus }
+  | { type: 'joined'; playerId: string; rejoinToken: string; game: GameSummary }
+  | { type: 'join_error'; reason: JoinErrorReason }
+  | { type: 'players'; players: PlayerInfo[] }
+  | { type: 'question_start'; index: number; total: number; question: PublicQuestion; timeLimitMs: number }
+  | { type: 'answer_accepted'; questionIndex: number }
+  | { type: 'reveal'; index: number; correctAnswer: QuestionAnswer; explanation: string; misconception?: string; source?: QuestionSource; result?: AnswerResult }
+  | { type: 'game_over'; leaderboard: LeaderboardEntry[] }
+  | { type: 'room_closed' }
+  | { type: 'error'; message: string };
+
+export type ServerMessageType = ServerMessage['type'];
+export type ServerMessageOf<T extends ServerMessageType> = Extract<ServerMessage, { type: T }>;
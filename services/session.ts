@@ -0,0 +1,100 @@
+import {
+  ClientMessage,
+  DEFAULT_SESSION_PORT,
+  ServerMessage,
+  ServerMessageOf,
+  ServerMessageType,
+} from "./session-protocol";
+
+type Handler<T extends ServerMessageType> = (message: ServerMessageOf<T>) => void;
+
+export interface SessionClient {
+  send: (message: ClientMessage) => void;
+  on: <T extends ServerMessageType>(type: T, handler: Handler<T>) => () => void;
+  // Sends a message and resolves with the first reply of one of the given types.
+  request: <T extends ServerMessageType>(message: ClientMessage, replyTypes: T[], timeoutMs?: number) => Promise<ServerMessageOf<T>>;
+  close: () => void;
+}
+
+const CONNECT_TIMEOUT = 5000;
+const REQUEST_TIMEOUT = 8000;
+
+const getSessionUrl = (): string => {
+  if (process.env.SESSION_URL) return process.env.SESSION_URL;
+  const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+  return `${protocol}://${window.location.hostname}:${DEFAULT_SESSION_PORT}`;
+};
+
+export const connectSession = (): Promise<SessionClient> => {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(getSessionUrl());
+    const handlers = new Map<ServerMessageType, Set<(message: ServerMessage) => void>>();
+
+    const timeoutId = setTimeout(() => {
+      socket.close();
+      reject(new Error("Could not reach the game server. Please check your connection."));
+    }, CONNECT_TIMEOUT);
+
+    const on = <T extends ServerMessageType>(type: T, handler: Handler<T>) => {
+      const set = handlers.get(type) || new Set();
+      set.add(handler as (message: ServerMessage) => void);
+      handlers.set(type, set);
+      return () => { set.delete(handler as (message: ServerMessage) => void); };
+    };
+
+    const send = (message: ClientMessage) => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    };
+
+    const request = <T extends ServerMessageType>(message: ClientMessage, replyTypes: T[], timeoutMs = REQUEST_TIMEOUT) => {
+      return new Promise<ServerMessageOf<T>>((resolveReply, rejectReply) => {
+        const unsubscribers: (() => void)[] = [];
+        const cleanup = () => {
+          clearTimeout(requestTimeout);
+          unsubscribers.forEach(off => off());
+        };
+        const requestTimeout = setTimeout(() => {
+          cleanup();
+          rejectReply(new Error("The game server did not respond in time."));
+        }, timeoutMs);
+
+        replyTypes.forEach(type => {
+          unsubscribers.push(on(type, (reply) => {
+            cleanup();
+            resolveReply(reply);
+          }));
+        });
+        unsubscribers.push(on('error', (reply) => {
+          cleanup();
+          rejectReply(new Error(reply.message));
+        }));
+        send(message);
+      });
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data) as ServerMessage;
+        handlers.get(message.type)?.forEach(handler => handler(message));
+      } catch (e) {
+        console.warn("Ignoring malformed session message", e);
+      }
+    };
+
+    socket.onopen = () => {
+      clearTimeout(timeoutId);
+      resolve({ send, on, request, close: () => socket.close() });
+    };
+
+    socket.onerror = () => {
+      clearTimeout(timeoutId);
+      reject(new Error("Could not reach the game server. Please check your connection."));
+    };
+
+    socket.onclose = () => {
+      handlers.get('room_closed')?.forEach(handler => handler({ type: 'room_closed' }));
+    };
+  });
+};
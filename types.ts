@@ -1,23 +1,173 @@
-export interface Question {
+export type QuestionKind =
+  | 'multiple_choice'
+  | 'true_false'
+  | 'multi_select'
+  | 'ordering'
+  | 'numeric'
+  | 'short_text'
+  | 'matching';
+
+// Relative weights per question kind, e.g. { multiple_choice: 70, true_false: 30 }
+export type QuestionTypeMix = Partial<Record<QuestionKind, number>>;
+
+// Where in the teacher's material a question comes from
+export interface QuestionSource {
+  ref: string;   // "Page 12", "Slide 3" or a section heading
+  quote: string; // Supporting sentence copied from the material
+  material?: string; // Label of the bundle source, when the game was built from several
+}
+
+// An image kept with a game: a figure extracted from the source material or
+// one the teacher uploaded. Questions refer to it by id.
+export interface MediaAsset {
+  id: string;        // "F1", "F2", ... unique within the game
+  blob: Blob;
+  alt: string;       // What the image shows; the generator only ever sees this
+  ref?: string;      // Where it was found, e.g. "Slide 3"
+  material?: string; // Label of the source it came from
+}
+
+interface QuestionBase {
   id: string;
   text: string;
-  options: string[];
-  correctIndex: number;
+  image?: string; // MediaAsset id shown with the question text
   explanation: string;
   concept: string;
   misconception?: string;
+  chunk?: string; // Label of the content section it was written from, e.g. "Slide 4"
+  source?: QuestionSource;
+}
+
+export interface MultipleChoiceQuestion extends QuestionBase {
+  kind: 'multiple_choice';
+  options: string[];
+  optionImages?: (string | null)[]; // MediaAsset id per option; an option with an image may have no text
+  correctIndex: number;
+}
+
+// Always uses the options ["True", "False"]
+export interface TrueFalseQuestion extends QuestionBase {
+  kind: 'true_false';
+  options: string[];
+  correctIndex: number;
 }
 
+export interface MultiSelectQuestion extends QuestionBase {
+  kind: 'multi_select';
+  options: string[];
+  optionImages?: (string | null)[];
+  correctIndices: number[];
+}
+
+// Items are stored in the correct order and shuffled for players
+export interface OrderingQuestion extends QuestionBase {
+  kind: 'ordering';
+  items: string[];
+}
+
+export interface NumericQuestion extends QuestionBase {
+  kind: 'numeric';
+  answer: number;
+  tolerance: number; // accepted absolute difference from `answer`
+  unit?: string;
+}
+
+export interface ShortTextQuestion extends QuestionBase {
+  kind: 'short_text';
+  acceptedAnswers: string[];
+}
+
+export interface MatchingPair {
+  left: string;
+  right: string;
+}
+
+export interface MatchingQuestion extends QuestionBase {
+  kind: 'matching';
+  pairs: MatchingPair[];
+}
+
+export type Question =
+  | MultipleChoiceQuestion
+  | TrueFalseQuestion
+  | MultiSelectQuestion
+  | OrderingQuestion
+  | NumericQuestion
+  | ShortTextQuestion
+  | MatchingQuestion;
+
+export type ChoiceQuestion = MultipleChoiceQuestion | TrueFalseQuestion;
+
+// A player's response, shaped by the kind of question it answers
+export type QuestionAnswer =
+  | { kind: 'multiple_choice' | 'true_false'; index: number }
+  | { kind: 'multi_select'; indices: number[] }
+  | { kind: 'ordering'; order: string[] }
+  | { kind: 'numeric'; value: number }
+  | { kind: 'short_text'; text: string }
+  | { kind: 'matching'; matches: string[] }; // one right-hand value per left-hand item, in order
+
+// Bloom's taxonomy levels, lowest to highest cognitive demand
+export type ObjectiveType = 'remember' | 'understand' | 'apply' | 'analyze' | 'evaluate' | 'create';
+
+// One file or pasted snippet in a game's source bundle
+export interface SourceMaterial {
+  id: string;
+  label: string;  // Teacher-facing name, e.g. "Week 3 slides"
+  text: string;
+  weight: number; // Relative share of the questions drawn from it
+  figures?: MediaAsset[];
+}
+
+// What a game was generated from, kept so single questions can be regenerated later
+export interface GenerationContext {
+  content: string;
+  objective: string;
+  objectiveType: ObjectiveType;
+  sources?: SourceMaterial[];
+}
+
+export type GameMechanic = 'economy' | 'combat' | 'movement' | 'timer';
+
+// Numbers behind the engine mode mechanics. Only the mechanics listed in
+// `mechanics` have their settings filled in.
+export interface GameRules {
+  mechanics: GameMechanic[];
+  economy?: {
+    currencyName: string;
+    startingBalance: number;
+    rewardPerCorrect: number;
+    costPerMiss: number;
+  };
+  combat?: {
+    startingHealth: number;
+    damagePerMiss: number;
+    healPerCorrect: number;
+  };
+  movement?: {
+    zones: number;
+    stepsPerCorrect: number;
+  };
+  timer?: {
+    secondsPerQuestion: number;
+  };
+}
+
+export type GameTheme = 'default' | 'adventure' | 'science' | 'history' | 'economic' | 'combat' | 'spatial' | 'social' | 'racing' | 'puzzle';
+
 export interface GameData {
-  code: string;
+  code?: string; // Issued by the session server when the game is hosted; never set on saved games
   isEngine: boolean;
   title: string;
   description: string;
   questions: Question[];
-  theme: 'default' | 'adventure' | 'science' | 'history' | 'economic' | 'combat' | 'spatial' | 'social' | 'racing' | 'puzzle';
+  theme: GameTheme;
+  rules?: GameRules;
+  generation?: GenerationContext;
+  media?: MediaAsset[];
 }
 
-export type ViewState = 'landing' | 'create' | 'join' | 'play' | 'host';
+export type ViewState = 'landing' | 'create' | 'edit' | 'library' | 'join' | 'play' | 'host';
 
 export interface GameState {
   currentQuestionIndex: number;
@@ -0,0 +1,213 @@
+import { SourceMaterial } from "../types";
+
+// Splits lesson content into sections and picks the ones most relevant to the
+// learning objective, so long documents are sampled by topic instead of position.
+
+export interface ContentChunk {
+  id: string;      // "S1", "S2", ... in document order
+  label: string;   // What a teacher would call it: a heading, "Slide 3", "Page 12: Osmosis"
+  text: string;
+  sourceId?: string;    // Set when the content is a bundle of several sources
+  sourceLabel?: string;
+}
+
+export interface RankedChunk extends ContentChunk {
+  score: number;
+}
+
+const MAX_CHUNK_CHARS = 2000;
+
+// Parsers mark slides, pages and chapters with "[Slide 3]" / "[Page 12]" / "[Chapter 2]" lines
+const MARKER_PATTERN = /^\[((?:Slide|Page|Chapter) \d+)\]\s*$/;
+const HEADING_PATTERN = /^#{1,6}\s+(.+?)\s*#*\s*$/;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one', 'our', 'out',
+  'has', 'his', 'how', 'its', 'may', 'who', 'did', 'get', 'use', 'that', 'with', 'this', 'from', 'they', 'will',
+  'have', 'what', 'when', 'which', 'their', 'there', 'about', 'would', 'these', 'other', 'into', 'more', 'some',
+  'than', 'then', 'them', 'were', 'been', 'also', 'each', 'such', 'only', 'should', 'could', 'students', 'understand',
+  'explain', 'describe', 'identify', 'able', 'learn', 'know'
+]);
+
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(word => word.length > 2 && !STOP_WORDS.has(word));
+
+// Long sections are cut at paragraph boundaries (or hard-cut if a paragraph is huge)
+const splitLong = (text: string, maxChars: number): string[] => {
+  if (text.length <= maxChars) return [text];
+  const parts: string[] = [];
+  let current = '';
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    for (let start = 0; start < paragraph.length; start += maxChars) {
+      const piece = paragraph.slice(start, start + maxChars);
+      if (current && current.length + piece.length + 2 > maxChars) {
+        parts.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+};
+
+export const splitIntoChunks = (content: string, maxChars = MAX_CHUNK_CHARS): ContentChunk[] => {
+  const sections: { label: string; lines: string[] }[] = [];
+  let current: { label: string; lines: string[] } = { label: '', lines: [] };
+  // Headings inside a page or slide keep its marker, so citations still say where to look
+  let page = '';
+
+  for (const line of content.split(/\r?\n/)) {
+    const marker = line.trim().match(MARKER_PATTERN);
+    const heading = line.trim().match(HEADING_PATTERN);
+    if (marker) {
+      sections.push(current);
+      page = marker[1];
+      current = { label: page, lines: [] };
+    } else if (heading) {
+      sections.push(current);
+      current = { label: page ? `${page}: ${heading[1]}` : heading[1], lines: [line] };
+    } else {
+      current.lines.push(line);
+    }
+  }
+  sections.push(current);
+
+  const chunks: ContentChunk[] = [];
+  for (const section of sections) {
+    const text = section.lines.join('\n').trim();
+    if (!text) continue;
+    const parts = splitLong(text, maxChars);
+    parts.forEach((part, i) => {
+      const label = section.label || `Section ${chunks.length + 1}`;
+      chunks.push({
+        id: `S${chunks.length + 1}`,
+        label: parts.length > 1 && section.label ? `${label} (part ${i + 1})` : label,
+        text: part
+      });
+    });
+  }
+  return chunks;
+};
+
+// Chunks every source of a bundle separately; ids stay unique across the bundle
+export const chunkSources = (sources: SourceMaterial[]): ContentChunk[] => {
+  const chunks: ContentChunk[] = [];
+  for (const source of sources) {
+    for (const chunk of splitIntoChunks(source.text)) {
+      chunks.push({ ...chunk, id: `S${chunks.length + 1}`, sourceId: source.id, sourceLabel: source.label });
+    }
+  }
+  return chunks;
+};
+
+// Full name of a chunk, including the source it belongs to
+export const chunkTitle = (chunk: ContentChunk): string =>
+  chunk.sourceLabel ? `${chunk.sourceLabel} › ${chunk.label}` : chunk.label;
+
+// Chunks per source, in the order the sources first appear
+const groupBySource = <T extends ContentChunk>(chunks: T[]): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  chunks.forEach(chunk => {
+    const key = chunk.sourceId || '';
+    groups.set(key, [...(groups.get(key) || []), chunk]);
+  });
+  return groups;
+};
+
+// TF-IDF relevance of every chunk to the query; ties keep document order.
+export const rankChunks = (chunks: ContentChunk[], query: string): RankedChunk[] => {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const chunkTerms = chunks.map(chunk => tokenize(`${chunk.label} ${chunk.text}`));
+
+  const documentFrequency = new Map<string, number>();
+  chunkTerms.forEach(terms => new Set(terms).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)));
+
+  return chunks
+    .map((chunk, i) => {
+      const terms = chunkTerms[i];
+      if (terms.length === 0) return { chunk: { ...chunk, score: 0 }, position: i };
+      const counts = new Map<string, number>();
+      terms.forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+      const score = queryTerms.reduce((sum, term) => {
+        const tf = (counts.get(term) || 0) / terms.length;
+        const idf = Math.log(1 + chunks.length / (documentFrequency.get(term) || 1));
+        return sum + tf * idf;
+      }, 0);
+      return { chunk: { ...chunk, score }, position: i };
+    })
+    .sort((a, b) => b.chunk.score - a.chunk.score || a.position - b.position)
+    .map(({ chunk }) => chunk);
+};
+
+const chunkCost = (chunk: ContentChunk) => chunk.text.length + chunkTitle(chunk).length + 10;
+
+const packWithin = <T extends ContentChunk>(chunks: T[], charLimit: number): T[] => {
+  const packed: T[] = [];
+  let used = 0;
+  for (const chunk of chunks) {
+    const cost = chunkCost(chunk);
+    if (used + cost > charLimit) continue;
+    packed.push(chunk);
+    used += cost;
+  }
+  if (packed.length === 0 && chunks.length > 0) {
+    packed.push({ ...chunks[0], text: chunks[0].text.slice(0, Math.max(charLimit - 50, 0)) });
+  }
+  return packed;
+};
+
+// Takes chunks in the given priority order until the budget is spent.
+// Always returns at least one chunk, trimmed if it alone is over budget.
+// With `weights` (by source id) every source first gets its share of the
+// budget, so one long reading cannot crowd out the slides.
+export const packChunks = <T extends ContentChunk>(chunks: T[], charLimit: number, weights?: Record<string, number>): T[] => {
+  const groups = groupBySource(chunks);
+  if (!weights || groups.size <= 1) return packWithin(chunks, charLimit);
+
+  const totalWeight = Array.from(groups.keys()).reduce((sum, id) => sum + (weights[id] ?? 1), 0);
+  const picked = new Map<string, T>();
+  let used = 0;
+  groups.forEach((group, id) => {
+    packWithin(group, charLimit * (weights[id] ?? 1) / totalWeight).forEach(chunk => {
+      picked.set(chunk.id, chunk);
+      used += chunkCost(chunk);
+    });
+  });
+  // Spend what the shares left over in plain priority order
+  for (const chunk of chunks) {
+    if (picked.has(chunk.id) || used + chunkCost(chunk) > charLimit) continue;
+    picked.set(chunk.id, chunk);
+    used += chunkCost(chunk);
+  }
+  return chunks.filter(chunk => picked.has(chunk.id)).map(chunk => picked.get(chunk.id)!);
+};
+
+// Chunk id for every question: the most relevant sections get questions first,
+// and no section gets a second question before every selected one has one.
+// With `weights`, sources get questions in proportion to their weight.
+export const planChunkCoverage = (ranked: ContentChunk[], questionCount: number, weights?: Record<string, number>): string[] => {
+  if (ranked.length === 0) return [];
+  const groups = groupBySource(ranked);
+  if (!weights || groups.size <= 1) {
+    return Array.from({ length: questionCount }, (_, i) => ranked[i % ranked.length].id);
+  }
+
+  const shares = Array.from(groups, ([id, group]) => ({ group, weight: weights[id] ?? 1, assigned: 0 }));
+  const totalWeight = shares.reduce((sum, share) => sum + share.weight, 0);
+  const behind = (share: typeof shares[number], n: number) => share.weight / totalWeight * n - share.assigned;
+
+  return Array.from({ length: questionCount }, (_, i) => {
+    // The source furthest behind its weighted share gets the next question
+    const next = shares.reduce((best, share) => behind(share, i + 1) > behind(best, i + 1) ? share : best);
+    const chunk = next.group[next.assigned % next.group.length];
+    next.assigned++;
+    return chunk.id;
+  });
+};
+
+export const formatChunks = (chunks: ContentChunk[]): string =>
+  [...chunks]
+    .sort((a, b) => Number(a.id.slice(1)) - Number(b.id.slice(1)))
+    .map(chunk => `[${chunk.id}: ${chunkTitle(chunk)}]\n${chunk.text}`)
+    .join('\n\n');
@@ -0,0 +1,44 @@
+// Message contract between the main thread (utils/file-processing.ts) and the
+// extraction worker (utils/extraction.worker.ts). Every message has a `type`
+// discriminator. A worker handles exactly one request and is then terminated.
+
+// An embedded image or rendered PDF region, already scaled down for the game
+export interface DocumentFigure {
+  blob: Blob;
+  alt: string;
+}
+
+// One page, slide, chapter or (for formats without pages) the whole file
+export interface DocumentSegment {
+  ref: string; // "Page 3", "Slide 2", "Chapter 4"; empty when the format has no pages
+  page?: number;
+  slide?: number;
+  chapter?: number;
+  text: string;
+  figures?: DocumentFigure[];
+}
+
+export type PageUnit = 'page' | 'slide' | 'chapter';
+
+// Dispatch is by file extension; the worker has a parser for each of these
+export const SUPPORTED_EXTENSIONS = ['txt', 'md', 'pdf', 'docx', 'pptx', 'html', 'htm', 'epub', 'odt', 'rtf', 'csv', 'srt', 'vtt'];
+
+export interface DocumentOutline {
+  pageCount: number; // 0 when the format has no pages
+  unit: PageUnit | null;
+}
+
+export interface ExtractionSettings {
+  pages?: number[]; // 1-based page, slide or chapter numbers; all of them when omitted
+  includeNotes?: boolean; // PPTX speaker notes and image alt text
+}
+
+export type ExtractionRequest =
+  | { type: 'inspect'; file: File }
+  | ({ type: 'extract'; file: File } & ExtractionSettings);
+
+export type ExtractionEvent =
+  | { type: 'outline'; outline: DocumentOutline }
+  | { type: 'segment'; segment: DocumentSegment | null; done: number; total: number }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
@@ -0,0 +1,22 @@
+import { ExtractionEvent, ExtractionRequest } from './extraction-protocol';
+import { extractDocument, inspectDocument } from './extractors';
+
+// Parses uploaded files off the main thread so large documents do not freeze
+// the page. Results stream back one page or slide at a time.
+
+const post = (event: ExtractionEvent) => self.postMessage(event);
+
+self.onmessage = async (e: MessageEvent<ExtractionRequest>) => {
+  const request = e.data;
+  try {
+    if (request.type === 'inspect') {
+      post({ type: 'outline', outline: await inspectDocument(request.file) });
+    } else {
+      const { type, file, ...settings } = request;
+      await extractDocument(file, settings, (segment, done, total) => post({ type: 'segment', segment, done, total }));
+      post({ type: 'done' });
+    }
+  } catch (error: any) {
+    post({ type: 'error', message: error?.message || "Could not read this file." });
+  }
+};
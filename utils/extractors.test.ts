@@ -0,0 +1,49 @@
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+import { DocumentSegment, ExtractionSettings } from "./extraction-protocol";
+import { extractDocument } from "./extractors";
+
+const fixtureFile = (name: string) => new File([readFileSync(new URL(`./fixtures/${name}`, import.meta.url))], name);
+
+const extract = async (file: File, settings: ExtractionSettings = {}) => {
+  const segments: (DocumentSegment | null)[] = [];
+  await extractDocument(file, settings, segment => segments.push(segment));
+  return segments;
+};
+
+describe("extractDocument", () => {
+  it.each([
+    ["sample.html", "# Photosynthesis"],
+    ["sample.rtf", "The cell is the basic unit of life."],
+    ["sample.csv", "Term — Definition"],
+    ["sample.srt", "Today we look at the water cycle."],
+    ["sample.vtt", "Rivers carry sediment & water."],
+    ["sample.odt", "## Plate tectonics"]
+  ])("reads %s as one segment", async (name, start) => {
+    const segments = await extract(fixtureFile(name));
+    expect(segments).toHaveLength(1);
+    expect(segments[0]?.ref).toBe("");
+    expect(segments[0]?.text.startsWith(start)).toBe(true);
+  });
+
+  it("passes plain text through", async () => {
+    const segments = await extract(new File(["Just notes.\n"], "notes.txt"));
+    expect(segments.map(segment => segment?.text)).toEqual(["Just notes.\n"]);
+  });
+
+  it("reads EPUB chapters in spine order", async () => {
+    const segments = await extract(fixtureFile("sample.epub"));
+    expect(segments.map(segment => segment?.ref)).toEqual(["Chapter 1", "Chapter 2"]);
+    expect(segments[0]?.text).toContain("Chemistry studies matter.");
+    expect(segments[1]?.text).toContain("Atoms have a nucleus.");
+  });
+
+  it("reads only the requested EPUB chapters", async () => {
+    const segments = await extract(fixtureFile("sample.epub"), { pages: [2] });
+    expect(segments.map(segment => segment?.ref)).toEqual(["Chapter 2"]);
+  });
+
+  it("rejects unsupported extensions", async () => {
+    await expect(extract(new File(["?"], "x.xyz"))).rejects.toThrow("Unsupported file type: .xyz");
+  });
+});
@@ -0,0 +1,552 @@
+import * as pdfjsModule from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.js?url';
+import mammoth from 'mammoth';
+import JSZip from 'jszip';
+import { DocumentFigure, DocumentOutline, DocumentSegment, ExtractionSettings, SUPPORTED_EXTENSIONS } from './extraction-protocol';
+import { csvToText, decodeEntities, htmlToText, markdownTable, odtToText, rtfToText, subtitlesToText } from './text-formats';
+import { fitImage, scaleImage } from './media';
+
+// Format-specific text extraction. These run inside the extraction worker, so
+// they must not touch the DOM (no DOMParser, no FileReader on window).
+
+// Handle ES module default export behavior from CDN
+const pdfjsLib = (pdfjsModule as any).default || pdfjsModule;
+
+// Bundled with the app so PDFs still open offline
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Called once per requested page, slide or chapter; `segment` is null for empty ones
+export type SegmentSink = (segment: DocumentSegment | null, done: number, total: number) => void;
+
+const extensionOf = (file: File) => file.name.split('.').pop()?.toLowerCase() || '';
+
+export const inspectDocument = async (file: File): Promise<DocumentOutline> => {
+  switch (extensionOf(file)) {
+    case 'pdf': {
+      const pdf = await openPdf(file);
+      const pageCount = pdf.numPages;
+      await pdf.destroy();
+      return { pageCount, unit: 'page' };
+    }
+    case 'pptx': {
+      const { slideFiles } = await openPptx(file);
+      return { pageCount: slideFiles.length, unit: 'slide' };
+    }
+    case 'epub': {
+      const { chapterFiles } = await openEpub(file);
+      return { pageCount: chapterFiles.length, unit: 'chapter' };
+    }
+    default:
+      return { pageCount: 0, unit: null };
+  }
+};
+
+export const extractDocument = async (file: File, settings: ExtractionSettings, emit: SegmentSink): Promise<void> => {
+  const { pages } = settings;
+  const extension = extensionOf(file);
+  if (!SUPPORTED_EXTENSIONS.includes(extension)) {
+    throw new Error(`Unsupported file type: .${extension}`);
+  }
+
+  switch (extension) {
+    case 'pdf':
+      return parsePdf(file, pages, emit);
+    case 'pptx':
+      return parsePptx(file, pages, settings.includeNotes, emit);
+    case 'epub':
+      return parseEpub(file, pages, emit);
+    case 'docx':
+      return emit(await parseDocx(file), 1, 1);
+    default:
+      emit({ ref: '', text: await parseWholeFile(file, extension) }, 1, 1);
+  }
+};
+
+// Formats without pages come back as one segment
+const parseWholeFile = async (file: File, extension: string): Promise<string> => {
+  switch (extension) {
+    case 'odt':
+      return parseOdt(file);
+    case 'html':
+    case 'htm':
+      return htmlToText(await file.text());
+    case 'rtf':
+      return rtfToText(await file.text());
+    case 'csv':
+      return csvToText(await file.text());
+    case 'srt':
+    case 'vtt':
+      return subtitlesToText(await file.text());
+    default:
+      return file.text();
+  }
+};
+
+// Requested pages that exist, in document order; every page when none are requested
+const selectPages = (pages: number[] | undefined, count: number): number[] => {
+  const all = Array.from({ length: count }, (_, i) => i + 1);
+  if (!pages || pages.length === 0) return all;
+  return Array.from(new Set(pages)).filter(p => p >= 1 && p <= count).sort((a, b) => a - b);
+};
+
+// Images smaller than this on either side are icons, bullets or logos
+const MIN_FIGURE_SIDE = 120;
+const MAX_FIGURES_PER_FILE = 20;
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', webp: 'image/webp', bmp: 'image/bmp'
+};
+
+const isFigureSized = (image: { width: number; height: number }) => Math.min(image.width, image.height) >= MIN_FIGURE_SIDE;
+
+const blobToFigure = async (blob: Blob, alt: string): Promise<DocumentFigure | null> => {
+  const fitted = await fitImage(blob);
+  return fitted && isFigureSized(fitted) ? { blob: fitted.blob, alt } : null;
+};
+
+// pdf.js creates scratch canvases while rendering; workers have no document to make them from
+const offscreenCanvasFactory = {
+  create: (width: number, height: number) => {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  },
+  reset: (entry: { canvas: OffscreenCanvas }, width: number, height: number) => {
+    entry.canvas.width = width;
+    entry.canvas.height = height;
+  },
+  destroy: (entry: { canvas: OffscreenCanvas | null; context: unknown }) => {
+    if (entry.canvas) entry.canvas.width = entry.canvas.height = 0;
+    entry.canvas = null;
+    entry.context = null;
+  }
+};
+
+const canRender = typeof OffscreenCanvas !== 'undefined';
+
+const openPdf = async (file: File) => {
+  const loadingTask = pdfjsLib.getDocument({
+    data: await file.arrayBuffer(),
+    disableAutoFetch: true,
+    disableStream: true,
+    // Figures are rendered in this worker: glyphs are drawn as paths instead of loaded as web fonts
+    ...(canRender ? { canvasFactory: offscreenCanvasFactory, disableFontFace: true } : {})
+  });
+  return loadingTask.promise;
+};
+
+interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const overlaps = (a: Region, b: Region) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+const union = (a: Region, b: Region): Region => {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return { x, y, width: Math.max(a.x + a.width, b.x + b.width) - x, height: Math.max(a.y + a.height, b.y + b.height) - y };
+};
+
+// Where the page paints raster images, in viewport pixels. Follows the
+// graphics state through the operator list; tiles of one picture are merged.
+const imageRegions = async (page: any, viewport: any): Promise<Region[]> => {
+  const { OPS, Util } = pdfjsLib;
+  const operators = await page.getOperatorList();
+  const stack: number[][] = [];
+  let transform = [1, 0, 0, 1, 0, 0];
+  let regions: Region[] = [];
+
+  operators.fnArray.forEach((fn: number, i: number) => {
+    const args = operators.argsArray[i];
+    if (fn === OPS.save) stack.push(transform);
+    else if (fn === OPS.restore) transform = stack.pop() || transform;
+    else if (fn === OPS.transform) transform = Util.transform(transform, args);
+    else if (fn === OPS.paintFormXObjectBegin) {
+      stack.push(transform);
+      if (args?.[0]) transform = Util.transform(transform, args[0]);
+    } else if (fn === OPS.paintFormXObjectEnd) transform = stack.pop() || transform;
+    else if (fn === OPS.paintImageXObject || fn === OPS.paintInlineImageXObject) {
+      const [x1, y1, x2, y2] = Util.getAxialAlignedBoundingBox([0, 0, 1, 1], Util.transform(viewport.transform, transform));
+      let region: Region = { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+      regions = regions.filter(other => {
+        if (!overlaps(region, other)) return true;
+        region = union(region, other);
+        return false;
+      });
+      regions.push(region);
+    }
+  });
+
+  const pageArea = viewport.width * viewport.height;
+  return regions.filter(region =>
+    isFigureSized(region) &&
+    // A picture covering the whole page is a scan, not a figure
+    region.width * region.height < pageArea * 0.8
+  );
+};
+
+// Renders the page once and crops every figure out of it. Captions such as
+// "Figure 3: ..." on the page become the alt text, in order.
+const pdfFigures = async (page: any, pageNumber: number, pageText: string, limit: number): Promise<DocumentFigure[]> => {
+  if (!canRender || limit <= 0) return [];
+  const viewport = page.getViewport({ scale: 2 });
+  const regions = (await imageRegions(page, viewport)).slice(0, limit);
+  if (regions.length === 0) return [];
+
+  const canvas = new OffscreenCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+  await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+  const captions = pageText.split('\n').filter(line => /^fig(ure|\.)?\s*\d+/i.test(line.trim()));
+
+  const figures: DocumentFigure[] = [];
+  for (const [i, region] of regions.entries()) {
+    const x = Math.max(0, Math.floor(region.x));
+    const y = Math.max(0, Math.floor(region.y));
+    const crop = new OffscreenCanvas(Math.min(Math.ceil(region.width), canvas.width - x), Math.min(Math.ceil(region.height), canvas.height - y));
+    crop.getContext('2d')!.drawImage(canvas, x, y, crop.width, crop.height, 0, 0, crop.width, crop.height);
+    if (!isFigureSized(crop)) continue;
+    figures.push({ blob: (await scaleImage(crop)).blob, alt: captions[i]?.trim() || `Figure on page ${pageNumber}` });
+  }
+  canvas.width = canvas.height = 0;
+  return figures;
+};
+
+async function parsePdf(file: File, pages: number[] | undefined, emit: SegmentSink): Promise<void> {
+  let pdf: any = null;
+  try {
+    pdf = await openPdf(file);
+    const selected = selectPages(pages, pdf.numPages);
+    let figureCount = 0;
+
+    for (let i = 0; i < selected.length; i++) {
+      const pageNumber = selected[i];
+      const page = await pdf.getPage(pageNumber);
+      const textContent = await page.getTextContent();
+      const pageText = pdfPageToText(textContent.items);
+      // A page whose figures cannot be rendered still has its text
+      const figures = await pdfFigures(page, pageNumber, pageText, MAX_FIGURES_PER_FILE - figureCount).catch((error) => {
+        console.warn(`Could not render the figures on page ${pageNumber}:`, error);
+        return [];
+      });
+      figureCount += figures.length;
+      // Release the page's parsed resources; long textbooks otherwise pile up in memory
+      page.cleanup();
+      emit(pageText.trim() || figures.length > 0 ? { ref: `Page ${pageNumber}`, page: pageNumber, text: pageText, figures } : null, i + 1, selected.length);
+    }
+  } catch (error) {
+    console.error("PDF Parsing Error Details:", error);
+    if (error instanceof Error) {
+        throw new Error(`PDF Error: ${error.message}`);
+    }
+    throw new Error("Could not parse PDF. Please ensure it is a valid PDF file.");
+  } finally {
+    if (pdf) await pdf.destroy();
+  }
+}
+
+interface PdfLine {
+  text: string;
+  size: number;
+  y: number;
+  end: number; // x where the last item ends, to decide whether the next one needs a space
+}
+
+const BULLET_PATTERN = /^[•▪◦●‣∙·\-–*]\s*/;
+
+// Rebuilds lines from pdf.js text items by y-position, then reads the layout:
+// noticeably larger lines are headings, bigger vertical gaps start paragraphs
+// and bullet glyphs become list items.
+const pdfPageToText = (items: any[]): string => {
+  const lines: PdfLine[] = [];
+  for (const item of items) {
+    if (typeof item.str !== 'string' || !item.str) continue;
+    const [, , c, d, x, y] = item.transform;
+    const size = Math.hypot(c, d) || item.height || 0;
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line.y - y) <= Math.max(line.size, size) * 0.5) {
+      const touching = /\s$/.test(line.text) || /^\s/.test(item.str) || x - line.end < size * 0.15;
+      line.text += touching ? item.str : ` ${item.str}`;
+      if (item.str.trim()) line.size = Math.max(line.size, size);
+      line.end = x + (item.width || 0);
+    } else if (item.str.trim()) {
+      lines.push({ text: item.str, size, y, end: x + (item.width || 0) });
+    }
+  }
+  if (lines.length === 0) return '';
+
+  // Body text size is the one most characters are set in
+  const sizeWeights = new Map<number, number>();
+  lines.forEach(line => {
+    const size = Math.round(line.size * 2) / 2;
+    sizeWeights.set(size, (sizeWeights.get(size) || 0) + line.text.length);
+  });
+  const bodySize = Array.from(sizeWeights).reduce((best, entry) => entry[1] > best[1] ? entry : best)[0];
+
+  const blocks: string[] = [];
+  let previous: PdfLine | null = null;
+  let previousHeading = false;
+  for (const line of lines) {
+    const text = line.text.replace(/\s+/g, ' ').trim();
+    const heading = line.size >= bodySize * 1.15 && text.length <= 120;
+    const gap = previous ? previous.y - line.y : 0;
+    const newParagraph = !previous || gap < 0 || gap > Math.max(previous.size, line.size) * 1.8;
+
+    if (heading) {
+      // Titles that wrap onto a second line stay one heading
+      if (previousHeading && !newParagraph && previous!.size === line.size) blocks[blocks.length - 1] += ` ${text}`;
+      else blocks.push(`${line.size >= bodySize * 1.6 ? '#' : '##'} ${text}`);
+    } else if (BULLET_PATTERN.test(text) && text.length > 1) {
+      blocks.push(`- ${text.replace(BULLET_PATTERN, '')}`);
+    } else if (newParagraph || previousHeading) {
+      blocks.push(text);
+    } else {
+      // Wrapped line of the same paragraph or list item
+      blocks[blocks.length - 1] += ` ${text}`;
+    }
+    previous = line;
+    previousHeading = heading;
+  }
+
+  return blocks
+    .map((block, i) => i > 0 && !(block.startsWith('- ') && blocks[i - 1].startsWith('- ')) ? `\n${block}` : block)
+    .join('\n');
+};
+
+async function parseDocx(file: File): Promise<DocumentSegment> {
+  try {
+    const arrayBuffer = await file.arrayBuffer();
+    // Images are collected on the side; mammoth writes their alt text onto the <img> it returns
+    const images: Blob[] = [];
+    const convertImage = mammoth.images.imgElement(async image => {
+      images.push(new Blob([await image.readAsArrayBuffer()], { type: image.contentType }));
+      return { src: `figure:${images.length - 1}` };
+    });
+    // The HTML conversion keeps the headings, lists and tables that raw text flattens
+    const result = await mammoth.convertToHtml({ arrayBuffer }, { convertImage });
+
+    const figures: DocumentFigure[] = [];
+    for (const [tag] of result.value.matchAll(/<img\b[^>]*>/g)) {
+      const image = images[Number(attributeOf(tag, 'src')?.replace('figure:', ''))];
+      const figure = image && figures.length < MAX_FIGURES_PER_FILE && await blobToFigure(image, decodeEntities(attributeOf(tag, 'alt') || ''));
+      if (figure) figures.push(figure);
+    }
+    return { ref: '', text: htmlToText(result.value), figures };
+  } catch (error) {
+    console.error("DOCX Parsing Error:", error);
+    throw new Error("Could not parse DOCX file.");
+  }
+}
+
+// Text runs of a DrawingML part. A regex is enough here: <a:t> never nests and
+// workers have no DOMParser.
+export const drawingText = (xml: string): string[] =>
+  Array.from(xml.matchAll(/<a:t(?:\s[^>]*)?>([^<]*)<\/a:t>/g), match => decodeEntities(match[1]));
+
+// Paragraphs of a shape or table cell with their list level. Runs within a
+// paragraph are joined without spaces: PowerPoint splits words across runs.
+const drawingParagraphs = (xml: string) =>
+  Array.from(xml.matchAll(/<a:p(?:\s[^>\/]*)?>([\s\S]*?)<\/a:p>/g), ([, inner]) => ({
+    text: drawingText(inner.replace(/<a:br\b[^>]*\/>/g, '<a:t> </a:t>')).join('').replace(/\s+/g, ' ').trim(),
+    level: Number(inner.match(/<a:pPr\b[^>]*\slvl="(\d+)"/)?.[1]) || 0,
+    bulleted: !/<a:buNone\s*\/>/.test(inner)
+  })).filter(paragraph => paragraph.text);
+
+// Placeholders that repeat on every slide and carry no lesson content
+const SLIDE_CHROME = /^(dt|ftr|sldNum|hdr)$/;
+
+// One slide as Markdown: the title placeholder becomes a heading, body
+// placeholders become (nested) bullets, text boxes stay paragraphs and
+// tables become pipe tables.
+const slideToText = (xml: string): string => {
+  const blocks: string[] = [];
+  for (const [shape, kind] of xml.matchAll(/<p:(sp|graphicFrame)\b[\s\S]*?<\/p:\1>/g)) {
+    if (kind === 'graphicFrame') {
+      const rows = Array.from(shape.matchAll(/<a:tr\b[\s\S]*?<\/a:tr>/g), ([tableRow]) =>
+        Array.from(tableRow.matchAll(/<a:tc\b[\s\S]*?<\/a:tc>/g), ([tableCell]) =>
+          drawingParagraphs(tableCell).map(paragraph => paragraph.text).join(' ')));
+      if (rows.length > 0) blocks.push(markdownTable(rows));
+      continue;
+    }
+
+    const placeholder = shape.match(/<p:ph\b[^>]*>/)?.[0];
+    const type = placeholder ? attributeOf(placeholder, 'type') || 'body' : null;
+    if (type && SLIDE_CHROME.test(type)) continue;
+    const paragraphs = drawingParagraphs(shape);
+    if (paragraphs.length === 0) continue;
+
+    if (type === 'title' || type === 'ctrTitle') {
+      blocks.push(`## ${paragraphs.map(paragraph => paragraph.text).join(' ')}`);
+    } else if (type === 'body' || type === 'obj') {
+      blocks.push(paragraphs
+        .map(paragraph => paragraph.bulleted ? `${'  '.repeat(paragraph.level)}- ${paragraph.text}` : paragraph.text)
+        .join('\n'));
+    } else {
+      blocks.push(paragraphs.map(paragraph => paragraph.text).join('\n'));
+    }
+  }
+  return blocks.join('\n\n');
+};
+
+// Relationships of an Office Open XML part (its _rels/<name>.rels file) with
+// targets resolved to zip paths
+const readRelationships = async (zip: JSZip, partPath: string) => {
+  const xml = await zip.file(partPath.replace(/([^/]+)$/, '_rels/$1.rels'))?.async('string');
+  if (!xml) return [];
+  return Array.from(xml.matchAll(/<Relationship\b[^>]*>/g), ([tag]) => {
+    const target = attributeOf(tag, 'Target') || '';
+    return {
+      id: attributeOf(tag, 'Id') || '',
+      type: attributeOf(tag, 'Type') || '',
+      path: target.startsWith('/') ? resolveZipPath('', target.slice(1)) : resolveZipPath(partPath, target)
+    };
+  });
+};
+
+// Slides in the order the deck shows them (presentation.xml), which can
+// differ from the slideN.xml numbering after slides are moved
+const openPptx = async (file: File) => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const presentationPath = 'ppt/presentation.xml';
+  const presentation = await zip.file(presentationPath)?.async('string');
+  const relationships = await readRelationships(zip, presentationPath);
+  const ordered = Array.from(presentation?.matchAll(/<p:sldId\b[^>]*>/g) || [], ([tag]) =>
+    relationships.find(relationship => relationship.id === attributeOf(tag, 'r:id'))?.path)
+    .filter((path): path is string => !!path && !!zip.file(path));
+
+  const slideFiles = ordered.length > 0 ? ordered : Object.keys(zip.files)
+    .filter(fileName => /^ppt\/slides\/slide\d+\.xml$/.test(fileName))
+    .sort((a, b) => parseInt(a.match(/slide(\d+)\.xml/)![1]) - parseInt(b.match(/slide(\d+)\.xml/)![1]));
+  return { zip, slideFiles };
+};
+
+// Alt text of pictures and diagrams on a slide
+const imageDescriptions = (xml: string): string[] =>
+  Array.from(new Set(Array.from(xml.matchAll(/<p:cNvPr\b[^>]*>/g), ([tag]) =>
+    decodeEntities(attributeOf(tag, 'descr') || '').replace(/\s+/g, ' ').trim()))).filter(Boolean);
+
+type Relationship = Awaited<ReturnType<typeof readRelationships>>[number];
+
+// Pictures on a slide, looked up through the image relationships their <a:blip> points at
+const slideFigures = async (zip: JSZip, xml: string, relationships: Relationship[], limit: number): Promise<DocumentFigure[]> => {
+  const figures: DocumentFigure[] = [];
+  const seen = new Set<string>();
+  for (const [picture] of xml.matchAll(/<p:pic\b[\s\S]*?<\/p:pic>/g)) {
+    if (figures.length >= limit) break;
+    const embed = attributeOf(picture.match(/<a:blip\b[^>]*>/)?.[0] || '', 'r:embed');
+    const path = relationships.find(relationship => relationship.id === embed)?.path;
+    const entry = path && !seen.has(path) && zip.file(path);
+    if (!entry) continue;
+    seen.add(path);
+    const type = IMAGE_TYPES[path.split('.').pop()!.toLowerCase()] || '';
+    const alt = decodeEntities(attributeOf(picture.match(/<p:cNvPr\b[^>]*>/)?.[0] || '', 'descr') || '').replace(/\s+/g, ' ').trim();
+    const figure = await blobToFigure(new Blob([await entry.async('arraybuffer')], { type }), alt);
+    if (figure) figures.push(figure);
+  }
+  return figures;
+};
+
+// Speaker notes, found through the slide's relationships rather than by file
+// name: notesSlide3.xml does not have to belong to slide 3
+const slideNotes = async (zip: JSZip, relationships: Relationship[]): Promise<string> => {
+  const notesPath = relationships.find(relationship => relationship.type.endsWith('/notesSlide'))?.path;
+  const xml = notesPath && await zip.file(notesPath)?.async('string');
+  if (!xml) return '';
+  // The notes page also holds a slide thumbnail and a slide number; the notes are in the body placeholder
+  return Array.from(xml.matchAll(/<p:sp\b[\s\S]*?<\/p:sp>/g))
+    .filter(([shape]) => attributeOf(shape.match(/<p:ph\b[^>]*>/)?.[0] || '', 'type') === 'body')
+    .flatMap(([shape]) => drawingParagraphs(shape).map(paragraph => paragraph.text))
+    .join('\n');
+};
+
+async function parsePptx(file: File, pages: number[] | undefined, includeNotes: boolean | undefined, emit: SegmentSink): Promise<void> {
+  try {
+    const { zip, slideFiles } = await openPptx(file);
+    const selected = selectPages(pages, slideFiles.length);
+    let figureCount = 0;
+
+    for (let i = 0; i < selected.length; i++) {
+      const slide = selected[i];
+      const slidePath = slideFiles[slide - 1];
+      const xmlContent = await zip.file(slidePath)!.async('string');
+      const relationships = await readRelationships(zip, slidePath);
+      const parts = [slideToText(xmlContent)];
+      if (includeNotes) {
+        parts.push(imageDescriptions(xmlContent).map(description => `Image: ${description}`).join('\n'));
+        const notes = await slideNotes(zip, relationships);
+        if (notes) parts.push(`Speaker notes:\n${notes}`);
+      }
+      const slideText = parts.filter(Boolean).join('\n\n');
+      const figures = await slideFigures(zip, xmlContent, relationships, MAX_FIGURES_PER_FILE - figureCount);
+      figureCount += figures.length;
+      emit(slideText.trim() || figures.length > 0 ? { ref: `Slide ${slide}`, slide, text: slideText, figures } : null, i + 1, selected.length);
+    }
+  } catch (error) {
+    console.error("PPTX Parsing Error:", error);
+    throw new Error("Could not parse PowerPoint file.");
+  }
+}
+
+async function parseOdt(file: File): Promise<string> {
+  try {
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+    const content = zip.file('content.xml');
+    if (!content) throw new Error("content.xml is missing");
+    return odtToText(await content.async('string'));
+  } catch (error) {
+    console.error("ODT Parsing Error:", error);
+    throw new Error("Could not parse OpenDocument file.");
+  }
+}
+
+// Resolves a path inside the zip relative to the file that references it
+const resolveZipPath = (base: string, href: string): string => {
+  const parts = base.split('/').slice(0, -1);
+  for (const part of decodeURIComponent(href.split('#')[0]).split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+};
+
+const attributeOf = (tag: string, name: string) => tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+
+// Chapters in reading order: container.xml points at the package document,
+// whose spine lists manifest items in order.
+const openEpub = async (file: File) => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const container = await zip.file('META-INF/container.xml')?.async('string');
+  const packagePath = container && attributeOf(container.match(/<rootfile\b[^>]*>/)?.[0] || '', 'full-path');
+  const packageXml = packagePath && await zip.file(packagePath)?.async('string');
+  if (!packagePath || !packageXml) throw new Error("The EPUB package document is missing");
+
+  const manifest = new Map<string, { href: string; type: string }>();
+  for (const [tag] of packageXml.matchAll(/<item\b[^>]*>/g)) {
+    const id = attributeOf(tag, 'id');
+    const href = attributeOf(tag, 'href');
+    if (id && href) manifest.set(id, { href, type: attributeOf(tag, 'media-type') || '' });
+  }
+
+  const chapterFiles = Array.from(packageXml.matchAll(/<itemref\b[^>]*>/g))
+    .map(([tag]) => manifest.get(attributeOf(tag, 'idref') || ''))
+    .filter(item => item && /html/.test(item.type))
+    .map(item => resolveZipPath(packagePath, item!.href))
+    .filter(path => zip.file(path));
+  return { zip, chapterFiles };
+};
+
+async function parseEpub(file: File, pages: number[] | undefined, emit: SegmentSink): Promise<void> {
+  try {
+    const { zip, chapterFiles } = await openEpub(file);
+    const selected = selectPages(pages, chapterFiles.length);
+
+    for (let i = 0; i < selected.length; i++) {
+      const chapter = selected[i];
+      const chapterText = htmlToText(await zip.file(chapterFiles[chapter - 1])!.async('string'));
+      emit(chapterText ? { ref: `Chapter ${chapter}`, chapter, text: chapterText } : null, i + 1, selected.length);
+    }
+  } catch (error) {
+    console.error("EPUB Parsing Error:", error);
+    throw new Error("Could not parse EPUB file.");
+  }
+}
@@ -1,129 +1,128 @@
-import * as pdfjsModule from 'pdfjs-dist';
-import mammoth from 'mammoth';
-import JSZip from 'jszip';
+import { MediaAsset } from '../types';
+import { DocumentOutline, DocumentSegment, ExtractionEvent, ExtractionRequest, ExtractionSettings } from './extraction-protocol';
+import { figureMarker, mediaId } from './media';
 
-// Handle ES module default export behavior from CDN
-const pdfjsLib = (pdfjsModule as any).default || pdfjsModule;
+export type { DocumentOutline, DocumentSegment } from './extraction-protocol';
+export { SUPPORTED_EXTENSIONS } from './extraction-protocol';
 
-// Initialize PDF.js worker
-pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
-
-export async function parseFile(file: File): Promise<string> {
-  const extension = file.name.split('.').pop()?.toLowerCase();
+export interface ParsedDocument {
+  fileName: string;
+  segments: DocumentSegment[];
+}
 
-  switch (extension) {
-    case 'txt':
-    case 'md':
-      return await parseTxt(file);
-    case 'pdf':
-      return await parsePdf(file);
-    case 'docx':
-      return await parseDocx(file);
-    case 'pptx':
-      return await parsePptx(file);
-    default:
-      throw new Error(`Unsupported file type: .${extension}`);
-  }
+export interface ParseOptions extends ExtractionSettings {
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
 }
 
-async function parseTxt(file: File): Promise<string> {
+// Documents longer than this ask the teacher which pages to use before parsing
+export const PAGE_SELECTION_THRESHOLD = 30;
+
+// Runs one request in a fresh extraction worker. Cancelling terminates the
+// worker, which stops a long PDF mid-page.
+const runExtraction = (
+  request: ExtractionRequest,
+  onEvent: (event: ExtractionEvent) => boolean,
+  signal?: AbortSignal
+): Promise<void> => {
   return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => resolve((e.target?.result as string) || '');
-    reader.onerror = (e) => reject(new Error("Failed to read text file"));
-    reader.readAsText(file);
+    if (signal?.aborted) return reject(new Error("Extraction cancelled"));
+
+    const worker = new Worker(new URL('./extraction.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(new Error("Extraction cancelled"));
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (e: MessageEvent<ExtractionEvent>) => {
+      const event = e.data;
+      if (event.type === 'error') {
+        finish();
+        reject(new Error(event.message));
+      } else if (onEvent(event)) {
+        finish();
+        resolve();
+      }
+    };
+    worker.onerror = (e) => {
+      finish();
+      reject(new Error(e.message || "Could not read this file."));
+    };
+    worker.postMessage(request);
   });
-}
+};
 
-async function parsePdf(file: File): Promise<string> {
-  try {
-    const arrayBuffer = await file.arrayBuffer();
-    
-    const loadingTask = pdfjsLib.getDocument({ 
-        data: arrayBuffer,
-        disableAutoFetch: true,
-        disableStream: true 
-    });
-    
-    const pdf = await loadingTask.promise;
-    let fullText = '';
-    
-    // OPTIMIZATION: Limit to first 30 pages. 
-    // Most educational content has key info at the start. 
-    // This prevents browser crashes on large textbooks.
-    const maxPages = Math.min(pdf.numPages, 30);
-    
-    for (let i = 1; i <= maxPages; i++) {
-      const page = await pdf.getPage(i);
-      const textContent = await page.getTextContent();
-      const pageText = textContent.items
-        .map((item: any) => item.str)
-        .join(' ');
-      fullText += pageText + '\n\n';
-    }
-    
-    return fullText;
-  } catch (error) {
-    console.error("PDF Parsing Error Details:", error);
-    if (error instanceof Error) {
-        throw new Error(`PDF Error: ${error.message}`);
-    }
-    throw new Error("Could not parse PDF. Please ensure it is a valid PDF file.");
-  }
+// Page, slide or chapter count, read without extracting any text
+export async function inspectFile(file: File, signal?: AbortSignal): Promise<DocumentOutline> {
+  let outline: DocumentOutline = { pageCount: 0, unit: null };
+  await runExtraction({ type: 'inspect', file }, event => {
+    if (event.type !== 'outline') return false;
+    outline = event.outline;
+    return true;
+  }, signal);
+  return outline;
 }
 
-async function parseDocx(file: File): Promise<string> {
-  try {
-    const arrayBuffer = await file.arrayBuffer();
-    const result = await mammoth.extractRawText({ arrayBuffer });
-    return result.value;
-  } catch (error) {
-    console.error("DOCX Parsing Error:", error);
-    throw new Error("Could not parse DOCX file.");
-  }
+export async function parseFile(file: File, options: ParseOptions = {}): Promise<ParsedDocument> {
+  const segments: DocumentSegment[] = [];
+  const { onProgress, signal, ...settings } = options;
+  await runExtraction({ type: 'extract', file, ...settings }, event => {
+    if (event.type === 'segment') {
+      if (event.segment) segments.push(event.segment);
+      onProgress?.(event.done, event.total);
+    }
+    return event.type === 'done';
+  }, signal);
+  return { fileName: file.name, segments };
 }
 
-async function parsePptx(file: File): Promise<string> {
-  try {
-    const arrayBuffer = await file.arrayBuffer();
-    const zip = await JSZip.loadAsync(arrayBuffer);
-    
-    const slideFiles = Object.keys(zip.files).filter(fileName => 
-      fileName.startsWith('ppt/slides/slide') && fileName.endsWith('.xml')
-    );
+// Reads "1-20, 45, 60-70" into page numbers. Returns null when the text is not
+// a valid selection for a document of `pageCount` pages.
+export const parsePageRanges = (input: string, pageCount: number): number[] | null => {
+  const pages = new Set<number>();
+  const parts = input.split(',').map(part => part.trim()).filter(Boolean);
+  if (parts.length === 0) return null;
 
-    slideFiles.sort((a, b) => {
-      const numA = parseInt(a.match(/slide(\d+)\.xml/)![1] || '0');
-      const numB = parseInt(b.match(/slide(\d+)\.xml/)![1] || '0');
-      return numA - numB;
-    });
-
-    let fullText = '';
-    
-    // OPTIMIZATION: Limit to first 30 slides
-    const maxSlides = Math.min(slideFiles.length, 30);
-    const slidesToProcess = slideFiles.slice(0, maxSlides);
+  for (const part of parts) {
+    const match = part.match(/^(\d+)\s*(?:-\s*(\d+))?$/);
+    if (!match) return null;
+    const from = parseInt(match[1], 10);
+    const to = match[2] ? parseInt(match[2], 10) : from;
+    if (from < 1 || to < from || to > pageCount) return null;
+    for (let page = from; page <= to; page++) pages.add(page);
+  }
+  return Array.from(pages).sort((a, b) => a - b);
+};
 
-    for (const slideFile of slidesToProcess) {
-      const xmlContent = await zip.files[slideFile].async('string');
-      const parser = new DOMParser();
-      const xmlDoc = parser.parseFromString(xmlContent, 'text/xml');
-      
-      const textNodes = xmlDoc.getElementsByTagName('a:t');
-      let slideText = '';
-      
-      for (let i = 0; i < textNodes.length; i++) {
-        slideText += textNodes[i].textContent + ' ';
-      }
-      
-      if (slideText.trim()) {
-        fullText += `[Slide ${slideFiles.indexOf(slideFile) + 1}]\n${slideText}\n\n`;
-      }
-    }
+export interface DocumentContent {
+  text: string;
+  figures: MediaAsset[];
+}
 
-    return fullText;
-  } catch (error) {
-    console.error("PPTX Parsing Error:", error);
-    throw new Error("Could not parse PowerPoint file.");
-  }
-}
\ No newline at end of file
+// Plain text for the prompt, keeping page and slide markers so generated
+// questions can cite where they came from. Figures become game media numbered
+// from `firstFigure`, with a marker line where they appear.
+export const documentContent = (document: ParsedDocument, material: string, firstFigure = 1): DocumentContent => {
+  const figures: MediaAsset[] = [];
+  const text = document.segments
+    .map(segment => {
+      const assets = (segment.figures || []).map((figure, i) => ({
+        id: mediaId(firstFigure + figures.length + i),
+        blob: figure.blob,
+        alt: figure.alt,
+        ref: segment.ref || undefined,
+        material
+      }));
+      figures.push(...assets);
+      const body = [segment.text.trim(), ...assets.map(figureMarker)].filter(Boolean).join('\n\n');
+      return body && segment.ref ? `[${segment.ref}]\n${body}` : body;
+    })
+    .filter(Boolean)
+    .join('\n\n');
+  return { text, figures };
+};
@@ -0,0 +1,24 @@
+// Game codes are read off a projector and typed on phones, so the alphabet
+// leaves out look-alike characters (O/0 and I/1).
+export const GAME_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const GAME_CODE_LENGTH = 6;
+
+export const generateGameCode = (): string => {
+  const values = new Uint32Array(GAME_CODE_LENGTH);
+  crypto.getRandomValues(values);
+  return Array.from(values, v => GAME_CODE_ALPHABET[v % GAME_CODE_ALPHABET.length]).join('');
+};
+
+// Uppercases input and drops anything that can never appear in a code.
+export const normalizeGameCode = (input: string): string => {
+  return input
+    .toUpperCase()
+    .split('')
+    .filter(c => GAME_CODE_ALPHABET.includes(c))
+    .join('')
+    .slice(0, GAME_CODE_LENGTH);
+};
+
+export const isValidGameCode = (code: string): boolean => {
+  return code.length === GAME_CODE_LENGTH && normalizeGameCode(code) === code;
+};
@@ -0,0 +1,226 @@
+import { GameData, GameTheme, MatchingPair, Question, QuestionKind } from "../types";
+import { GAME_THEMES, MAX_ITEMS, MAX_OPTIONS } from "./game-validation";
+import { QUESTION_KINDS, TRUE_FALSE_OPTIONS } from "./question-kinds";
+import { restoreMathEscapes } from "./rich-text";
+
+// Fixes the mechanical mistakes models make in otherwise usable output. What
+// cannot be fixed here is left for validateGame to report.
+
+export interface RepairResult<T> {
+  value: T;
+  // Human-readable notes on what was changed, e.g. "questions.2.options: removed duplicate option"
+  repairs: string[];
+}
+
+const asString = (value: unknown): string =>
+  typeof value === 'string' ? restoreMathEscapes(value).trim() : value == null ? '' : String(value).trim();
+
+const asNumber = (value: unknown): number => typeof value === 'number' ? value : parseFloat(asString(value));
+
+const asStringList = (value: unknown): string[] => Array.isArray(value) ? value.map(asString) : [];
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Removes repeated entries and returns, for every original position, where it ended up
+const dedupe = (values: string[]): { values: string[]; positions: number[] } => {
+  const result: string[] = [];
+  const positions = values.map(value => {
+    const existing = result.findIndex(v => sameText(v, value));
+    if (existing !== -1) return existing;
+    result.push(value);
+    return result.length - 1;
+  });
+  return { values: result, positions };
+};
+
+interface RepairedOptions {
+  options: string[];
+  optionImages?: (string | null)[]; // Undefined when no option has an image
+  // For every raw option, where it ended up; -1 when it was dropped
+  positions: number[];
+  removedEmpty: boolean;
+  removedDuplicates: boolean;
+}
+
+// Drops options with neither text nor an image and repeats of an earlier one.
+// An option with only an image is a figure answer and stays.
+const repairOptions = (rawOptions: string[], rawImages: unknown): RepairedOptions => {
+  const images = Array.isArray(rawImages) ? rawImages.map(image => asString(image) || null) : [];
+  const kept: { text: string; image: string | null }[] = [];
+  let removedEmpty = false;
+  let removedDuplicates = false;
+
+  const positions = rawOptions.map((text, i) => {
+    const image = images[i] || null;
+    if (!text && !image) {
+      removedEmpty = true;
+      return -1;
+    }
+    const existing = kept.findIndex(option => text ? sameText(option.text, text) : !option.text && option.image === image);
+    if (existing !== -1) {
+      removedDuplicates = true;
+      return existing;
+    }
+    kept.push({ text, image });
+    return kept.length - 1;
+  }).map(position => position < MAX_OPTIONS ? position : -1);
+
+  const options = kept.slice(0, MAX_OPTIONS);
+  return {
+    options: options.map(option => option.text),
+    optionImages: options.some(option => option.image) ? options.map(option => option.image) : undefined,
+    positions,
+    removedEmpty,
+    removedDuplicates
+  };
+};
+
+export const normalizeTheme = (theme: unknown): GameTheme => {
+  const value = asString(theme).toLowerCase();
+  return GAME_THEMES.find(t => t === value) || GAME_THEMES.find(t => t !== 'default' && value.includes(t)) || 'default';
+};
+
+export const repairQuestion = (raw: any, index: number): RepairResult<Question> => {
+  const repairs: string[] = [];
+  const note = (field: string, message: string) => repairs.push(`questions.${index}.${field}: ${message}`);
+  const source = raw && typeof raw === 'object' ? raw : {};
+
+  let kind = asString(source.kind) as QuestionKind;
+  if (!QUESTION_KINDS.some(k => k.value === kind)) {
+    if (source.kind) note('kind', `unknown kind "${source.kind}", treated as multiple choice`);
+    kind = 'multiple_choice';
+  }
+
+  const base = {
+    id: asString(source.id),
+    text: asString(source.text),
+    image: asString(source.image) || undefined,
+    explanation: asString(source.explanation),
+    concept: asString(source.concept),
+    misconception: asString(source.misconception) || undefined,
+    chunk: asString(source.chunk) || undefined,
+    source: asString(source.source?.quote)
+      ? {
+          ref: asString(source.source.ref),
+          quote: asString(source.source.quote),
+          material: asString(source.source.material) || undefined
+        }
+      : undefined
+  };
+
+  switch (kind) {
+    case 'multiple_choice':
+    case 'true_false': {
+      const rawOptions = asStringList(source.options);
+      let correct = Math.round(asNumber(source.correctIndex));
+
+      if (kind === 'true_false') {
+        const picked = rawOptions[correct]?.toLowerCase();
+        correct = picked === 'false' ? 1 : picked === 'true' ? 0 : correct;
+        if (rawOptions.join('|') !== TRUE_FALSE_OPTIONS.join('|')) note('options', 'reset to True/False');
+        if (!Number.isInteger(correct) || correct < 0 || correct > 1) {
+          note('correctIndex', 'clamped into range');
+          correct = Number.isInteger(correct) && correct > 1 ? 1 : 0;
+        }
+        return { value: { ...base, kind, options: [...TRUE_FALSE_OPTIONS], correctIndex: correct }, repairs };
+      }
+
+      const { options, optionImages, positions, removedEmpty, removedDuplicates } = repairOptions(rawOptions, source.optionImages);
+      if (removedEmpty) note('options', 'removed empty options');
+      if (removedDuplicates) note('options', 'removed duplicate options');
+
+      // Follow the correct option through the removals above
+      const moved = positions[correct] ?? -1;
+      let correctIndex = moved;
+      if (moved === -1) {
+        correctIndex = Number.isFinite(correct) ? Math.min(Math.max(correct, 0), Math.max(options.length - 1, 0)) : 0;
+        note('correctIndex', 'clamped into range');
+      } else if (moved !== correct) {
+        note('correctIndex', 'moved to follow the correct option');
+      }
+      return { value: { ...base, kind, options, optionImages, correctIndex }, repairs };
+    }
+
+    case 'multi_select': {
+      const rawOptions = asStringList(source.options);
+      const { options, optionImages, positions, removedEmpty, removedDuplicates } = repairOptions(rawOptions, source.optionImages);
+      if (removedEmpty || removedDuplicates) note('options', 'removed empty or duplicate options');
+
+      const rawIndices: number[] = Array.isArray(source.correctIndices) ? source.correctIndices.map(asNumber) : [];
+      const correctIndices = Array.from(new Set(
+        rawIndices
+          .map(i => positions[i] ?? -1)
+          .filter(i => i !== -1)
+      )).sort((a, b) => a - b);
+      if (correctIndices.length !== rawIndices.length) note('correctIndices', 'dropped invalid or repeated indices');
+      return { value: { ...base, kind, options, optionImages, correctIndices }, repairs };
+    }
+
+    case 'ordering': {
+      const rawItems = asStringList(source.items).filter(Boolean);
+      const items = dedupe(rawItems).values.slice(0, MAX_ITEMS);
+      if (items.length < rawItems.length) note('items', 'removed duplicate items');
+      return { value: { ...base, kind, items }, repairs };
+    }
+
+    case 'numeric': {
+      const answer = asNumber(source.answer);
+      let tolerance = asNumber(source.tolerance);
+      if (!Number.isFinite(tolerance) || tolerance < 0) {
+        note('tolerance', 'set to a non-negative number');
+        tolerance = Number.isFinite(tolerance) ? Math.abs(tolerance) : 0;
+      }
+      return { value: { ...base, kind, answer, tolerance, unit: asString(source.unit) || undefined }, repairs };
+    }
+
+    case 'short_text': {
+      const rawAccepted = asStringList(source.acceptedAnswers).filter(Boolean);
+      const acceptedAnswers = dedupe(rawAccepted).values;
+      if (acceptedAnswers.length < rawAccepted.length) note('acceptedAnswers', 'removed duplicate answers');
+      return { value: { ...base, kind, acceptedAnswers }, repairs };
+    }
+
+    case 'matching': {
+      const rawPairs: any[] = Array.isArray(source.pairs) ? source.pairs : [];
+      const pairs: MatchingPair[] = [];
+      rawPairs.forEach(pair => {
+        const left = asString(pair?.left);
+        const right = asString(pair?.right);
+        if (!left || !right) return;
+        if (pairs.some(p => sameText(p.left, left) || sameText(p.right, right))) return;
+        pairs.push({ left, right });
+      });
+      if (pairs.length < rawPairs.length) note('pairs', 'removed incomplete or duplicate pairs');
+      return { value: { ...base, kind, pairs: pairs.slice(0, MAX_ITEMS) }, repairs };
+    }
+  }
+};
+
+export const repairGame = (raw: any): RepairResult<GameData> => {
+  const source = raw && typeof raw === 'object' ? raw : {};
+  const repairs: string[] = [];
+
+  const theme = normalizeTheme(source.theme);
+  if (source.theme !== theme) repairs.push(`theme: "${source.theme}" normalized to "${theme}"`);
+
+  const questions = (Array.isArray(source.questions) ? source.questions : []).map((q: any, i: number) => {
+    const result = repairQuestion(q, i);
+    repairs.push(...result.repairs);
+    return result.value;
+  });
+
+  // Ids only need to be unique within a game, so position is enough
+  const renumbered = questions.map((q: Question, i: number) => ({ ...q, id: String(i + 1) }));
+  if (questions.some((q: Question, i: number) => q.id !== renumbered[i].id)) repairs.push('questions: ids renumbered');
+
+  return {
+    value: {
+      ...source,
+      title: asString(source.title),
+      description: asString(source.description),
+      theme,
+      questions: renumbered
+    } as GameData,
+    repairs
+  };
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { correctAnswerRewards, LEGACY_ENGINE_RULES } from "./game-rules";
+
+describe("correctAnswerRewards", () => {
+  it("lists what each mechanic gives for a correct answer", () => {
+    expect(correctAnswerRewards({
+      mechanics: ['economy', 'combat', 'movement'],
+      economy: { currencyName: "Gold", startingBalance: 0, rewardPerCorrect: 40, costPerMiss: 5 },
+      combat: { startingHealth: 100, damagePerMiss: 20, healPerCorrect: 10 },
+      movement: { zones: 8, stepsPerCorrect: 2 }
+    })).toEqual(["+40 Gold", "+10 health", "+2 zones"]);
+  });
+
+  it("follows the rules older engine games are played with", () => {
+    expect(correctAnswerRewards(LEGACY_ENGINE_RULES)[0]).toBe(`+${LEGACY_ENGINE_RULES.economy!.rewardPerCorrect} Energy`);
+  });
+
+  it("gives nothing for quizzes and timer-only games", () => {
+    expect(correctAnswerRewards(undefined)).toEqual([]);
+    expect(correctAnswerRewards({ mechanics: ['timer'], timer: { secondsPerQuestion: 20 } })).toEqual([]);
+  });
+});
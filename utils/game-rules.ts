@@ -0,0 +1,133 @@
+import { GameData, GameMechanic, GameRules } from "../types";
+
+export const GAME_MECHANICS: GameMechanic[] = ['economy', 'combat', 'movement', 'timer'];
+
+// Genres imply a mechanic when the teacher does not pick any
+export const GENRE_MECHANICS: Record<string, GameMechanic[]> = {
+  economic: ['economy'],
+  combat: ['combat'],
+  spatial: ['movement'],
+  racing: ['timer', 'movement'],
+  social: [],
+  puzzle: ['timer'],
+};
+
+export const DEFAULT_RULE_SETTINGS: Required<Omit<GameRules, 'mechanics'>> = {
+  economy: { currencyName: "Coins", startingBalance: 0, rewardPerCorrect: 25, costPerMiss: 0 },
+  combat: { startingHealth: 100, damagePerMiss: 15, healPerCorrect: 0 },
+  movement: { zones: 10, stepsPerCorrect: 1 },
+  timer: { secondsPerQuestion: 30 },
+};
+
+// Engine games saved before rules existed keep the behaviour they were played with
+export const LEGACY_ENGINE_RULES: GameRules = {
+  mechanics: ['combat', 'economy'],
+  combat: DEFAULT_RULE_SETTINGS.combat,
+  economy: { ...DEFAULT_RULE_SETTINGS.economy, currencyName: "Energy" },
+};
+
+const clamp = (value: unknown, min: number, max: number, fallback: number): number => {
+  const n = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(max, Math.max(min, Math.round(n)));
+};
+
+// The mechanics a game should use: the teacher's picks first, then the genre's,
+// minus anything they asked to avoid. Empty means the model may choose.
+export const selectMechanics = (preferred: string[] = [], avoid: string[] = [], genre?: string): GameMechanic[] => {
+  const allowed = (m: string): m is GameMechanic => GAME_MECHANICS.includes(m as GameMechanic) && !avoid.includes(m);
+  const picked = preferred.filter(allowed);
+  if (picked.length > 0) return picked;
+  return (GENRE_MECHANICS[genre || ''] || []).filter(allowed);
+};
+
+// Turns whatever the model sent into playable rules, clamped to sane ranges.
+export const normalizeGameRules = (raw: any, allowed: GameMechanic[]): GameRules => {
+  const requested: GameMechanic[] = Array.isArray(raw?.mechanics) ? raw.mechanics : [];
+  const mechanics = Array.from(new Set(requested.filter(m => allowed.includes(m))));
+  const rules: GameRules = { mechanics };
+  const defaults = DEFAULT_RULE_SETTINGS;
+
+  if (mechanics.includes('economy')) {
+    const economy = raw?.economy || {};
+    rules.economy = {
+      currencyName: typeof economy.currencyName === 'string' && economy.currencyName.trim()
+        ? economy.currencyName.trim().slice(0, 20)
+        : defaults.economy.currencyName,
+      startingBalance: clamp(economy.startingBalance, 0, 1000, defaults.economy.startingBalance),
+      rewardPerCorrect: clamp(economy.rewardPerCorrect, 1, 500, defaults.economy.rewardPerCorrect),
+      costPerMiss: clamp(economy.costPerMiss, 0, 500, defaults.economy.costPerMiss),
+    };
+  }
+  if (mechanics.includes('combat')) {
+    const combat = raw?.combat || {};
+    rules.combat = {
+      startingHealth: clamp(combat.startingHealth, 10, 500, defaults.combat.startingHealth),
+      damagePerMiss: clamp(combat.damagePerMiss, 1, 100, defaults.combat.damagePerMiss),
+      healPerCorrect: clamp(combat.healPerCorrect, 0, 100, defaults.combat.healPerCorrect),
+    };
+  }
+  if (mechanics.includes('movement')) {
+    const movement = raw?.movement || {};
+    rules.movement = {
+      zones: clamp(movement.zones, 3, 50, defaults.movement.zones),
+      stepsPerCorrect: clamp(movement.stepsPerCorrect, 1, 5, defaults.movement.stepsPerCorrect),
+    };
+  }
+  if (mechanics.includes('timer')) {
+    rules.timer = {
+      secondsPerQuestion: clamp(raw?.timer?.secondsPerQuestion, 5, 120, defaults.timer.secondsPerQuestion),
+    };
+  }
+
+  return rules;
+};
+
+export const resolveGameRules = (game: Pick<GameData, 'isEngine' | 'rules'>): GameRules | undefined => {
+  if (!game.isEngine) return undefined;
+  return game.rules || LEGACY_ENGINE_RULES;
+};
+
+export const questionTimeLimitMs = (rules: GameRules | undefined, fallbackMs: number): number => {
+  return rules?.timer ? rules.timer.secondsPerQuestion * 1000 : fallbackMs;
+};
+
+// Per-player progress through the engine mechanics, tracked on the student's device
+export interface EngineState {
+  health: number;
+  balance: number;
+  zone: number;
+}
+
+export const initialEngineState = (rules?: GameRules): EngineState => ({
+  health: rules?.combat?.startingHealth ?? 0,
+  balance: rules?.economy?.startingBalance ?? 0,
+  zone: 0
+});
+
+export const applyRoundResult = (rules: GameRules | undefined, state: EngineState, correct: boolean): EngineState => {
+  if (!rules) return state;
+  const { combat, economy, movement } = rules;
+
+  if (correct) {
+    return {
+      health: combat ? Math.min(state.health + combat.healPerCorrect, combat.startingHealth) : state.health,
+      balance: economy ? state.balance + economy.rewardPerCorrect : state.balance,
+      zone: movement ? Math.min(state.zone + movement.stepsPerCorrect, movement.zones) : state.zone
+    };
+  }
+  return {
+    health: combat ? Math.max(state.health - combat.damagePerMiss, 0) : state.health,
+    balance: economy ? Math.max(state.balance - economy.costPerMiss, 0) : state.balance,
+    zone: state.zone
+  };
+};
+
+// What a correct answer earns under these rules, e.g. ["+25 Coins", "+1 zone"]
+export const correctAnswerRewards = (rules: GameRules | undefined): string[] => {
+  const rewards: string[] = [];
+  if (rules?.economy) rewards.push(`+${rules.economy.rewardPerCorrect} ${rules.economy.currencyName}`);
+  if (rules?.combat && rules.combat.healPerCorrect > 0) rewards.push(`+${rules.combat.healPerCorrect} health`);
+  if (rules?.movement) rewards.push(`+${rules.movement.stepsPerCorrect} ${rules.movement.stepsPerCorrect === 1 ? 'zone' : 'zones'}`);
+  return rewards;
+};
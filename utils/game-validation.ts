@@ -0,0 +1,134 @@
+import { GameData, GameTheme, Question } from "../types";
+import { questionMediaIds } from "./media";
+
+export const GAME_THEMES: GameTheme[] = ['default', 'adventure', 'science', 'history', 'economic', 'combat', 'spatial', 'social', 'racing', 'puzzle'];
+
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 6;
+
+export interface ValidationIssue {
+  severity: 'error' | 'warning';
+  // Dotted path of the offending field, e.g. "questions.2.options.1"
+  path: string;
+  questionIndex?: number;
+  message: string;
+}
+
+// Ordering items and matching pairs
+export const MIN_ITEMS = 2;
+export const MAX_ITEMS = 8;
+
+const normalizeOption = (option: string) => option.trim().toLowerCase();
+
+export const optionLabel = (i: number) => `Option ${String.fromCharCode(65 + i)}`;
+
+export const validateQuestion = (question: Question, index: number): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const at = (field: string) => `questions.${index}.${field}`;
+  const error = (field: string, message: string) => issues.push({ severity: 'error', path: at(field), questionIndex: index, message });
+  const warn = (field: string, message: string) => issues.push({ severity: 'warning', path: at(field), questionIndex: index, message });
+
+  // Flags empty and duplicate entries in a list of answers the player chooses from.
+  // Entries with an image may leave the text empty.
+  const checkList = (field: string, values: string[], label: (i: number) => string, min: number, max: number, images: (string | null)[] = []) => {
+    if (values.length < min) error(field, `Needs at least ${min} entries.`);
+    if (values.length > max) error(field, `Has more than ${max} entries.`);
+
+    const seen = new Map<string, number>();
+    values.forEach((value, i) => {
+      if (!value?.trim()) {
+        if (!images[i]) error(`${field}.${i}`, `${label(i)} is empty.`);
+        return;
+      }
+      const key = normalizeOption(value);
+      if (seen.has(key)) {
+        error(`${field}.${i}`, `${label(i)} duplicates ${label(seen.get(key)!).toLowerCase()}.`);
+      } else {
+        seen.set(key, i);
+      }
+    });
+  };
+
+  if (!question.text?.trim()) error('text', "Question text is empty.");
+
+  switch (question.kind) {
+    case 'multiple_choice':
+    case 'true_false': {
+      const options = Array.isArray(question.options) ? question.options : [];
+      checkList('options', options, optionLabel, MIN_OPTIONS, MAX_OPTIONS, question.kind === 'multiple_choice' ? question.optionImages : []);
+      if (!Number.isInteger(question.correctIndex) || question.correctIndex < 0 || question.correctIndex >= options.length) {
+        error('correctIndex', "No valid correct answer is selected.");
+      }
+      break;
+    }
+    case 'multi_select': {
+      const options = Array.isArray(question.options) ? question.options : [];
+      checkList('options', options, optionLabel, MIN_OPTIONS, MAX_OPTIONS, question.optionImages);
+      const correct = Array.isArray(question.correctIndices) ? question.correctIndices : [];
+      if (correct.length === 0) error('correctIndices', "Select at least one correct answer.");
+      if (correct.some(i => !Number.isInteger(i) || i < 0 || i >= options.length)) {
+        error('correctIndices', "A correct answer points at an option that does not exist.");
+      }
+      break;
+    }
+    case 'ordering':
+      checkList('items', Array.isArray(question.items) ? question.items : [], i => `Item ${i + 1}`, MIN_ITEMS, MAX_ITEMS);
+      break;
+    case 'numeric':
+      if (!Number.isFinite(question.answer)) error('answer', "The correct answer must be a number.");
+      if (!Number.isFinite(question.tolerance) || question.tolerance < 0) error('tolerance', "Tolerance must be zero or a positive number.");
+      break;
+    case 'short_text': {
+      const accepted = Array.isArray(question.acceptedAnswers) ? question.acceptedAnswers : [];
+      checkList('acceptedAnswers', accepted, i => `Accepted answer ${i + 1}`, 1, Infinity);
+      break;
+    }
+    case 'matching': {
+      const pairs = Array.isArray(question.pairs) ? question.pairs : [];
+      checkList('pairs', pairs.map(p => p.left), i => `Left item ${i + 1}`, MIN_ITEMS, MAX_ITEMS);
+      // Counts were already checked with the left-hand side
+      checkList('pairs', pairs.map(p => p.right), i => `Right item ${i + 1}`, 0, Infinity);
+      break;
+    }
+    default:
+      error('kind', "Unknown question type.");
+  }
+
+  if (!question.explanation?.trim()) warn('explanation', "Add an explanation so students learn from mistakes.");
+  if (!question.concept?.trim()) warn('concept', "Concept is empty.");
+
+  return issues;
+};
+
+export const validateGame = (game: GameData): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+
+  if (!game.title?.trim()) {
+    issues.push({ severity: 'error', path: 'title', message: "The game needs a title." });
+  }
+  if (!GAME_THEMES.includes(game.theme)) {
+    issues.push({ severity: 'error', path: 'theme', message: `Theme "${game.theme}" is not one of: ${GAME_THEMES.join(', ')}.` });
+  }
+  if (!Array.isArray(game.questions) || game.questions.length === 0) {
+    issues.push({ severity: 'error', path: 'questions', message: "The game needs at least one question." });
+    return issues;
+  }
+
+  const ids = new Set<string>();
+  // Generated batches are checked before their media is attached
+  const mediaIds = game.media ? new Set(game.media.map(asset => asset.id)) : null;
+  game.questions.forEach((question, index) => {
+    if (ids.has(question.id)) {
+      issues.push({ severity: 'error', path: `questions.${index}.id`, questionIndex: index, message: "Question id is not unique." });
+    }
+    ids.add(question.id);
+    issues.push(...validateQuestion(question, index));
+    if (mediaIds && questionMediaIds(question).some(id => !mediaIds.has(id))) {
+      issues.push({ severity: 'error', path: `questions.${index}.image`, questionIndex: index, message: "An image this question shows is missing." });
+    }
+  });
+
+  return issues;
+};
+
+export const hasBlockingIssues = (issues: ValidationIssue[]) => issues.some(issue => issue.severity === 'error');
@@ -0,0 +1,86 @@
+import { Question, QuestionAnswer } from "../types";
+
+// Shared by the session server (authoritative scoring) and the client (previews).
+
+// Case, surrounding whitespace and punctuation do not matter for typed answers.
+export const normalizeAnswerText = (text: string) =>
+  text.trim().toLowerCase().replace(/[^\p{L}\p{N}\s.-]/gu, '').replace(/\s+/g, ' ');
+
+const sameSet = (a: number[], b: number[]) => {
+  const left = new Set(a);
+  return left.size === b.length && b.every(value => left.has(value));
+};
+
+const sameSequence = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((value, i) => normalizeAnswerText(value) === normalizeAnswerText(b[i]));
+
+const isIndex = (value: unknown, length: number) =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < length;
+
+const isStringList = (value: unknown, length: number) =>
+  Array.isArray(value) && value.length === length && value.every(item => typeof item === 'string');
+
+// Checks that an answer from a client has the right shape for the question before it is stored.
+export const isAnswerFor = (question: Question, answer: QuestionAnswer | undefined): boolean => {
+  if (!answer || answer.kind !== question.kind) return false;
+
+  switch (answer.kind) {
+    case 'multiple_choice':
+    case 'true_false':
+      return question.kind === answer.kind && isIndex(answer.index, question.options.length);
+    case 'multi_select':
+      return question.kind === 'multi_select'
+        && Array.isArray(answer.indices)
+        && answer.indices.every(i => isIndex(i, question.options.length));
+    case 'ordering':
+      return question.kind === 'ordering' && isStringList(answer.order, question.items.length);
+    case 'numeric':
+      return typeof answer.value === 'number' && Number.isFinite(answer.value);
+    case 'short_text':
+      return typeof answer.text === 'string' && answer.text.length <= 200;
+    case 'matching':
+      return question.kind === 'matching' && isStringList(answer.matches, question.pairs.length);
+  }
+};
+
+export const gradeAnswer = (question: Question, answer: QuestionAnswer): boolean => {
+  if (!isAnswerFor(question, answer)) return false;
+
+  switch (question.kind) {
+    case 'multiple_choice':
+    case 'true_false':
+      return answer.kind === question.kind && answer.index === question.correctIndex;
+    case 'multi_select':
+      return answer.kind === 'multi_select' && sameSet(answer.indices, question.correctIndices);
+    case 'ordering':
+      return answer.kind === 'ordering' && sameSequence(answer.order, question.items);
+    case 'numeric':
+      return answer.kind === 'numeric' && Math.abs(answer.value - question.answer) <= Math.abs(question.tolerance || 0);
+    case 'short_text': {
+      if (answer.kind !== 'short_text') return false;
+      const given = normalizeAnswerText(answer.text);
+      return given.length > 0 && question.acceptedAnswers.some(accepted => normalizeAnswerText(accepted) === given);
+    }
+    case 'matching':
+      return answer.kind === 'matching' && sameSequence(answer.matches, question.pairs.map(p => p.right));
+  }
+};
+
+// The answer a player would have had to give, used when revealing results.
+export const correctAnswerOf = (question: Question): QuestionAnswer => {
+  switch (question.kind) {
+    case 'multiple_choice':
+    case 'true_false':
+      return { kind: question.kind, index: question.correctIndex };
+    case 'multi_select':
+      return { kind: 'multi_select', indices: [...question.correctIndices].sort((a, b) => a - b) };
+    case 'ordering':
+      return { kind: 'ordering', order: question.items };
+    case 'numeric':
+      return { kind: 'numeric', value: question.answer };
+    case 'short_text':
+      return { kind: 'short_text', text: question.acceptedAnswers[0] || '' };
+    case 'matching':
+      return { kind: 'matching', matches: question.pairs.map(p => p.right) };
+  }
+};
@@ -0,0 +1,63 @@
+import { MediaAsset, Question } from "../types";
+
+// Game images are numbered "F1", "F2", ... so prompts can refer to them by a
+// short id the model copies reliably.
+
+export const mediaId = (n: number) => `F${n}`;
+
+export const nextMediaNumber = (media: MediaAsset[]): number =>
+  Math.max(0, ...media.map(asset => Number(asset.id.replace(/^F/, '')) || 0)) + 1;
+
+// How a figure appears in the source text the generator reads
+export const figureMarker = (asset: MediaAsset) => `[Figure ${asset.id}: ${asset.alt || "no description"}]`;
+
+export const FIGURE_MARKER_PATTERN = /\[Figure (F\d+):/g;
+
+// Every media id a question shows, on the stem or on an option
+export const questionMediaIds = (question: Question): string[] => [
+  ...(question.image ? [question.image] : []),
+  ...('optionImages' in question && question.optionImages ? question.optionImages.filter((id): id is string => !!id) : [])
+];
+
+// Longest side of a stored image: enough for a projector without bloating saved games
+const MAX_IMAGE_SIDE = 1024;
+const KEEP_AS_IS = /^image\/(png|jpeg|gif|webp)$/;
+
+export interface FittedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+export const scaleImage = async (source: ImageBitmap | OffscreenCanvas): Promise<FittedImage> => {
+  const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(source.width, source.height));
+  const canvas = new OffscreenCanvas(Math.round(source.width * scale), Math.round(source.height * scale));
+  canvas.getContext('2d')!.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const blob = await canvas.convertToBlob({ type: 'image/webp', quality: 0.85 });
+  return { blob, width: canvas.width, height: canvas.height };
+};
+
+// Small web images are kept byte for byte; everything else is redrawn at most
+// MAX_IMAGE_SIDE wide. Null for formats the browser cannot draw (EMF, WMF, TIFF).
+export const fitImage = async (blob: Blob): Promise<FittedImage | null> => {
+  if (typeof createImageBitmap === 'undefined') return null;
+  const bitmap = await createImageBitmap(blob).catch(() => null);
+  if (!bitmap) return null;
+  try {
+    const { width, height } = bitmap;
+    if (Math.max(width, height) <= MAX_IMAGE_SIDE && blob.size <= 300_000 && KEEP_AS_IS.test(blob.type)) {
+      return { blob, width, height };
+    }
+    return await scaleImage(bitmap);
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error || new Error("Could not read the image"));
+    reader.readAsDataURL(blob);
+  });
@@ -0,0 +1,134 @@
+// Reads the JSON a model has streamed so far. Open strings, arrays and objects
+// are closed where the text stops; a key whose value has not started yet and a
+// half-written number or literal are left out.
+
+export interface PartialJson {
+  value: unknown;
+  // False for arrays and objects the text has not closed yet
+  isComplete: (node: object) => boolean;
+}
+
+const WHITESPACE = /\s/;
+const NUMBER_PATTERN = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/;
+const LITERALS: Record<string, unknown> = { true: true, false: false, null: null };
+const ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+// Thrown when the text is not the start of a JSON document at all
+const invalid = (position: number) => new Error(`Unexpected character at ${position}`);
+
+export const parsePartialJson = (input: string): PartialJson | null => {
+  // Models sometimes wrap the document in a ```json fence
+  const text = input.replace(/^\s*```(?:json)?/, '');
+  const open = new WeakSet<object>();
+  let position = 0;
+
+  const skipWhitespace = () => {
+    while (position < text.length && WHITESPACE.test(text[position])) position++;
+  };
+
+  const parseString = (): string => {
+    position++; // opening quote
+    let result = '';
+    while (position < text.length) {
+      const char = text[position++];
+      if (char === '"') return result;
+      if (char !== '\\') {
+        result += char;
+        continue;
+      }
+      const escape = text[position++];
+      if (escape === undefined) break;
+      if (escape === 'u') {
+        const hex = text.slice(position, position + 4);
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+        result += String.fromCharCode(parseInt(hex, 16));
+        position += 4;
+      } else {
+        result += ESCAPES[escape] ?? escape;
+      }
+    }
+    position = text.length;
+    return result;
+  };
+
+  // Undefined when the text ends before the value has started
+  const parseValue = (): unknown => {
+    skipWhitespace();
+    if (position >= text.length) return undefined;
+    const char = text[position];
+
+    if (char === '"') return parseString();
+
+    if (char === '{') {
+      position++;
+      const object: Record<string, unknown> = {};
+      open.add(object);
+      while (true) {
+        skipWhitespace();
+        if (position >= text.length) return object;
+        if (text[position] === '}') {
+          position++;
+          open.delete(object);
+          return object;
+        }
+        if (text[position] === ',') {
+          position++;
+          continue;
+        }
+        if (text[position] !== '"') throw invalid(position);
+        const key = parseString();
+        skipWhitespace();
+        if (position >= text.length) return object;
+        if (text[position] !== ':') throw invalid(position);
+        position++;
+        const value = parseValue();
+        if (value !== undefined) object[key] = value;
+      }
+    }
+
+    if (char === '[') {
+      position++;
+      const array: unknown[] = [];
+      open.add(array);
+      while (true) {
+        skipWhitespace();
+        if (position >= text.length) return array;
+        if (text[position] === ']') {
+          position++;
+          open.delete(array);
+          return array;
+        }
+        if (text[position] === ',') {
+          position++;
+          continue;
+        }
+        const value = parseValue();
+        if (value !== undefined) array.push(value);
+      }
+    }
+
+    const rest = text.slice(position);
+    const number = rest.match(NUMBER_PATTERN);
+    // A number running into the end of the text may still be growing
+    if (number && number[0].length < rest.length) {
+      position += number[0].length;
+      return Number(number[0]);
+    }
+    const literal = Object.keys(LITERALS).find(word => rest.startsWith(word));
+    if (literal) {
+      position += literal.length;
+      return LITERALS[literal];
+    }
+    if (number || Object.keys(LITERALS).some(word => word.startsWith(rest))) {
+      position = text.length;
+      return undefined;
+    }
+    throw invalid(position);
+  };
+
+  try {
+    return { value: parseValue(), isComplete: (node) => !open.has(node) };
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,64 @@
+import { Question, QuestionKind } from "../types";
+
+export const QUESTION_KINDS: { value: QuestionKind; label: string }[] = [
+  { value: "multiple_choice", label: "Multiple choice" },
+  { value: "true_false", label: "True / False" },
+  { value: "multi_select", label: "Select all that apply" },
+  { value: "ordering", label: "Put in order" },
+  { value: "numeric", label: "Numeric answer" },
+  { value: "short_text", label: "Short answer" },
+  { value: "matching", label: "Match pairs" },
+];
+
+export const TRUE_FALSE_OPTIONS = ["True", "False"];
+
+export const questionKindLabel = (kind: QuestionKind) =>
+  QUESTION_KINDS.find(k => k.value === kind)?.label || kind;
+
+type QuestionDetails = Pick<Question, 'id' | 'text' | 'image' | 'explanation' | 'concept' | 'misconception' | 'chunk' | 'source'>;
+
+// Builds an empty question of the given kind, keeping shared fields such as the text and concept.
+export const createBlankQuestion = (kind: QuestionKind, details?: Partial<QuestionDetails>): Question => {
+  const base: QuestionDetails = {
+    id: details?.id || crypto.randomUUID(),
+    text: details?.text || "",
+    image: details?.image,
+    explanation: details?.explanation || "",
+    concept: details?.concept || "",
+    misconception: details?.misconception || "",
+    chunk: details?.chunk,
+    source: details?.source
+  };
+
+  switch (kind) {
+    case 'multiple_choice':
+      return { ...base, kind, options: ["", "", "", ""], correctIndex: 0 };
+    case 'true_false':
+      return { ...base, kind, options: [...TRUE_FALSE_OPTIONS], correctIndex: 0 };
+    case 'multi_select':
+      return { ...base, kind, options: ["", "", "", ""], correctIndices: [] };
+    case 'ordering':
+      return { ...base, kind, items: ["", "", ""] };
+    case 'numeric':
+      return { ...base, kind, answer: 0, tolerance: 0, unit: "" };
+    case 'short_text':
+      return { ...base, kind, acceptedAnswers: [""] };
+    case 'matching':
+      return { ...base, kind, pairs: [{ left: "", right: "" }, { left: "", right: "" }, { left: "", right: "" }] };
+  }
+};
+
+// Games saved before question kinds existed only have options and a correctIndex.
+export const withQuestionKind = (question: any): Question => {
+  if (question && typeof question.kind === 'string') return question as Question;
+  return { ...question, kind: 'multiple_choice' } as Question;
+};
+
+export const shuffle = <T>(values: T[]): T[] => {
+  const result = [...values];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
@@ -0,0 +1,169 @@
+import { Question } from "../types";
+import { optionLabel, ValidationIssue } from "./game-validation";
+
+// Quality checks beyond validity: a question can be valid and still have two
+// defensible answers or give the answer away. Everything here is a warning;
+// the teacher decides whether to change the question.
+
+// Options count as the same when they differ only in case, punctuation or articles
+const comparable = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\b(?:a|an|the)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const CATCH_ALL_OPTION = /^(?:all|none|both|neither) of (?:the )?(?:above|these|them|those)\b|^(?:both|either|neither) [a-f] (?:and|or|nor) [a-f]$/;
+
+// Negatives students read past. One in capitals or emphasis has been made hard to miss.
+const NEGATION = /(?<![*_])\b(?:not|except|never|incorrect|untrue|(?<!at )least|cannot|\w+n't)\b(?![*_])/gi;
+
+// "The correct answer is ...", "the answer is ..." in an explanation
+const STATED_ANSWER = /\b(?:correct answer|right answer|answer) is:?\s+["“']?([^."”\n]+)/i;
+const STATED_TRUTH = /\b(?:this|the|that) statement is (true|false)\b/i;
+
+// "10-20", "10 to 20", "between 10 and 20"
+const RANGE = /^(?:between\s+)?(-?\d+(?:\.\d+)?)\s*(?:-|–|to|and)\s*(-?\d+(?:\.\d+)?)\b/i;
+
+const LENGTH_RATIO = 1.75;
+const MIN_GIVEAWAY_LENGTH = 20;
+
+// Flesch-Kincaid grades; a stem is compared with the rest of its game too
+const MAX_READING_GRADE = 16;
+const READING_GRADE_SPREAD = 6;
+const MIN_WORDS_TO_GRADE = 8;
+const MAX_STEM_WORDS = 60;
+
+const words = (text: string): string[] => text.match(/[\p{L}\p{N}']+/gu) || [];
+
+const syllables = (word: string) => {
+  const groups = word.toLowerCase().replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').match(/[aeiouy]+/g);
+  return Math.max(1, groups ? groups.length : 1);
+};
+
+// Math, code and figure markers would skew the word and syllable counts
+const proseOf = (text: string) => text.replace(/\$\$[\s\S]+?\$\$|\$[^$\n]+\$|`[^`]*`|\[[^\]]*\]/g, ' ');
+
+const readingGrade = (text: string): number | null => {
+  const prose = proseOf(text);
+  const list = words(prose);
+  if (list.length < MIN_WORDS_TO_GRADE) return null;
+  const sentences = Math.max(1, (prose.match(/[.!?]+(?:\s|$)/g) || []).length);
+  const syllableCount = list.reduce((sum, word) => sum + syllables(word), 0);
+  return 0.39 * (list.length / sentences) + 11.8 * (syllableCount / list.length) - 15.59;
+};
+
+const rangeOf = (option: string): [number, number] | null => {
+  const match = option.trim().match(RANGE);
+  if (!match) return null;
+  const [from, to] = [parseFloat(match[1]), parseFloat(match[2])];
+  return from <= to ? [from, to] : null;
+};
+
+// "Mitochondria" and "Mitochondria and ribosomes"; "Carbon" and "Carbon dioxide" are different answers
+const containsAsPart = (longer: string, shorter: string, original: string) =>
+  shorter.length >= 3 && longer !== shorter && ` ${longer} `.includes(` ${shorter} `) && /,|\b(?:and|or)\b/i.test(original);
+
+export const lintQuestion = (question: Question, index: number): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const warn = (field: string, message: string) =>
+    issues.push({ severity: 'warning', path: `questions.${index}.${field}`, questionIndex: index, message });
+
+  const negatives = Array.from((question.text || '').matchAll(NEGATION), match => match[0])
+    .filter(word => word !== word.toUpperCase());
+  if (negatives.length > 0) {
+    warn('text', `The stem says "${negatives[0]}", which students often read past. Rephrase it positively or put the word in capitals.`);
+  }
+
+  const stemWords = words(proseOf(question.text || '')).length;
+  const grade = readingGrade(question.text || '');
+  if (stemWords > MAX_STEM_WORDS) {
+    warn('text', `The stem is ${stemWords} words long. Move background into the explanation or split the question.`);
+  } else if (grade !== null && grade >= MAX_READING_GRADE) {
+    warn('text', "The stem reads at a postgraduate level. Shorter sentences and plainer words test the concept, not the reading.");
+  }
+
+  if (question.kind === 'multiple_choice' || question.kind === 'multi_select') {
+    const options = question.options.map(option => option || '');
+    const keys = options.map(comparable);
+    const correct = question.kind === 'multiple_choice' ? [question.correctIndex] : question.correctIndices;
+
+    keys.forEach((key, i) => {
+      if (!key) return;
+      const earlier = keys.findIndex((other, j) => j < i && other === key);
+      // Exact duplicates are already validation errors
+      if (earlier !== -1 && options[earlier].trim().toLowerCase() !== options[i].trim().toLowerCase()) {
+        warn(`options.${i}`, `${optionLabel(i)} says the same as ${optionLabel(earlier).toLowerCase()}.`);
+      }
+      if (CATCH_ALL_OPTION.test(key)) {
+        warn(`options.${i}`, `${optionLabel(i)} is "${options[i].trim()}". Students can reach it by elimination; write a real answer instead.`);
+      }
+    });
+
+    // Overlap only matters when a single answer is expected
+    if (question.kind === 'multiple_choice') {
+      for (let i = 0; i < keys.length; i++) {
+        for (let j = i + 1; j < keys.length; j++) {
+          const [a, b] = [rangeOf(options[i]), rangeOf(options[j])];
+          const overlapping = a && b ? a[0] <= b[1] && b[0] <= a[1] : containsAsPart(keys[i], keys[j], options[i]) || containsAsPart(keys[j], keys[i], options[j]);
+          if (overlapping) {
+            warn(`options.${j}`, `${optionLabel(i)} overlaps with ${optionLabel(j).toLowerCase()}, so both could be defended.`);
+          }
+        }
+      }
+
+      const answer = options[question.correctIndex];
+      const distractors = options.filter((_, i) => i !== question.correctIndex && options[i].trim());
+      if (answer && distractors.length >= 2) {
+        const longest = Math.max(...distractors.map(option => option.length));
+        const average = distractors.reduce((sum, option) => sum + option.length, 0) / distractors.length;
+        if (answer.length >= MIN_GIVEAWAY_LENGTH && answer.length > longest && answer.length >= average * LENGTH_RATIO) {
+          warn(`options.${question.correctIndex}`, "The correct answer is much longer than the others, which gives it away. Trim it or add detail to the distractors.");
+        }
+      }
+    }
+
+    // An explanation that names a distractor as the answer contradicts the key
+    const stated = (question.explanation || '').match(STATED_ANSWER);
+    if (stated) {
+      const named = comparable(stated[1]);
+      const matchesCorrect = correct.some(i => keys[i] && (named.startsWith(keys[i]) || keys[i].startsWith(named)));
+      const distractor = keys.findIndex((key, i) => key && !correct.includes(i) && (named === key || named.startsWith(`${key} `)));
+      if (distractor !== -1 && !matchesCorrect) {
+        warn('explanation', `The explanation gives ${optionLabel(distractor).toLowerCase()} as the answer, but it is not marked correct.`);
+      }
+    }
+  }
+
+  if (question.kind === 'true_false') {
+    const stated = (question.explanation || '').match(STATED_TRUTH);
+    if (stated && (stated[1].toLowerCase() === 'true') !== (question.correctIndex === 0)) {
+      warn('explanation', `The explanation says the statement is ${stated[1].toLowerCase()}, but the answer is marked ${question.correctIndex === 0 ? "true" : "false"}.`);
+    }
+  }
+
+  return issues;
+};
+
+// Lints every question, and flags stems far harder or easier to read than the rest
+export const lintQuestions = (questions: Question[]): ValidationIssue[] => {
+  const issues = questions.flatMap(lintQuestion);
+
+  const grades = questions.map(question => readingGrade(question.text || ''));
+  const known = grades.filter((grade): grade is number => grade !== null).sort((a, b) => a - b);
+  if (known.length >= 4) {
+    const median = known[Math.floor(known.length / 2)];
+    grades.forEach((grade, index) => {
+      if (grade === null || grade >= MAX_READING_GRADE || Math.abs(grade - median) < READING_GRADE_SPREAD) return;
+      issues.push({
+        severity: 'warning',
+        path: `questions.${index}.text`,
+        questionIndex: index,
+        message: `The stem reads ${grade > median ? "much harder" : "much easier"} than the rest of the game.`
+      });
+    });
+  }
+
+  return issues;
+};
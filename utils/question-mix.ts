@@ -0,0 +1,46 @@
+import { QuestionKind, QuestionTypeMix } from "../types";
+
+export const QUESTION_COUNT_LIMITS = {
+  MIN: 3,
+  MAX: 50,
+  DEFAULT: 5
+};
+
+export const DEFAULT_TYPE_MIX: QuestionTypeMix = { multiple_choice: 100 };
+
+export const clampQuestionCount = (count?: number): number => {
+  if (!count || !Number.isFinite(count)) return QUESTION_COUNT_LIMITS.DEFAULT;
+  return Math.min(QUESTION_COUNT_LIMITS.MAX, Math.max(QUESTION_COUNT_LIMITS.MIN, Math.round(count)));
+};
+
+// Turns a weighted mix into an ordered list of kinds, one per question. Kinds
+// are interleaved so every slice of the plan (e.g. one generation batch)
+// roughly keeps the overall proportions.
+export const planQuestionKinds = (count: number, mix: QuestionTypeMix = DEFAULT_TYPE_MIX): QuestionKind[] => {
+  const entries = (Object.entries(mix) as [QuestionKind, number][]).filter(([, weight]) => weight > 0);
+  if (entries.length === 0) return Array(count).fill('multiple_choice');
+
+  const totalWeight = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  const assigned = new Map<QuestionKind, number>(entries.map(([kind]) => [kind, 0]));
+  const plan: QuestionKind[] = [];
+
+  for (let i = 0; i < count; i++) {
+    let best = entries[0][0];
+    let bestDeficit = -Infinity;
+    entries.forEach(([kind, weight]) => {
+      const deficit = (weight / totalWeight) * (i + 1) - assigned.get(kind)!;
+      if (deficit > bestDeficit) {
+        best = kind;
+        bestDeficit = deficit;
+      }
+    });
+    assigned.set(best, assigned.get(best)! + 1);
+    plan.push(best);
+  }
+
+  return plan;
+};
+
+export const countKinds = (kinds: QuestionKind[]): Partial<Record<QuestionKind, number>> => {
+  return kinds.reduce((counts, kind) => ({ ...counts, [kind]: (counts[kind] || 0) + 1 }), {} as Partial<Record<QuestionKind, number>>);
+};
@@ -0,0 +1,94 @@
+// The small notation questions may use: LaTeX between $...$ (inline) or
+// $$...$$ (display), **bold**, *italics*, `code` and fenced code blocks.
+// Anything else is plain text.
+
+export type RichInline =
+  | { type: 'text'; text: string }
+  | { type: 'math'; tex: string }
+  | { type: 'code'; code: string }
+  | { type: 'strong' | 'em'; children: RichInline[] }
+  | { type: 'break' };
+
+export type RichBlock =
+  | { type: 'paragraph'; children: RichInline[] }
+  | { type: 'math'; tex: string }
+  | { type: 'code'; code: string; language?: string };
+
+// An unclosed fence runs to the end, like in Markdown
+const BLOCK_PATTERN = /```([\w+#-]*)[ \t]*\n?([\s\S]*?)(?:\n?```|$)|\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]/g;
+
+// A $ only opens math before a non-space and only closes after one, and never
+// right before a digit, so "$5 and $10" stays text.
+const INLINE_PATTERN = new RegExp([
+  /`([^`\n]+)`/.source,
+  /\\\((.+?)\\\)/.source,
+  /\$(?=\S)((?:\\\$|[^$\n])+?)(?<=\S)\$(?!\d)/.source,
+  /\*\*(?=\S)(.+?)(?<=\S)\*\*/.source,
+  /(?<!\w)__(?=\S)(.+?)(?<=\S)__(?!\w)/.source,
+  /\*(?=\S)([^*\n]+?)(?<=\S)\*/.source,
+  /(?<!\w)_(?=\S)([^_\n]+?)(?<=\S)_(?!\w)/.source,
+  /\\(\$)/.source,
+  /(\n)/.source
+].join('|'), 'g');
+
+const parseInline = (text: string): RichInline[] => {
+  const result: RichInline[] = [];
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = result[result.length - 1];
+    if (last?.type === 'text') last.text += value;
+    else result.push({ type: 'text', text: value });
+  };
+
+  let position = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    pushText(text.slice(position, match.index));
+    position = match.index! + match[0].length;
+    const [, code, parenMath, dollarMath, strong, strongUnderscore, em, emUnderscore, dollar] = match;
+    if (code !== undefined) result.push({ type: 'code', code });
+    else if (parenMath !== undefined || dollarMath !== undefined) result.push({ type: 'math', tex: (parenMath ?? dollarMath).trim() });
+    else if (strong !== undefined || strongUnderscore !== undefined) result.push({ type: 'strong', children: parseInline(strong ?? strongUnderscore) });
+    else if (em !== undefined || emUnderscore !== undefined) result.push({ type: 'em', children: parseInline(em ?? emUnderscore) });
+    else if (dollar !== undefined) pushText('$');
+    else result.push({ type: 'break' });
+  }
+  pushText(text.slice(position));
+  return result;
+};
+
+const parseParagraphs = (text: string): RichBlock[] =>
+  text
+    .split(/\n[ \t]*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => ({ type: 'paragraph', children: parseInline(paragraph) }));
+
+export const parseRichText = (text: string): RichBlock[] => {
+  const blocks: RichBlock[] = [];
+  let position = 0;
+  for (const match of text.matchAll(BLOCK_PATTERN)) {
+    blocks.push(...parseParagraphs(text.slice(position, match.index)));
+    position = match.index! + match[0].length;
+    const [, language, code, dollarMath, bracketMath] = match;
+    if (code !== undefined) blocks.push({ type: 'code', code: code.replace(/\n$/, ''), language: language || undefined });
+    else blocks.push({ type: 'math', tex: (dollarMath ?? bracketMath).trim() });
+  }
+  blocks.push(...parseParagraphs(text.slice(position)));
+  return blocks;
+};
+
+// True when the text would render differently from plain text
+export const hasNotation = (text: string): boolean =>
+  parseRichText(text).some(block => block.type !== 'paragraph' || block.children.some(inline => inline.type !== 'text' && inline.type !== 'break'));
+
+// JSON turns an unescaped "\frac" into a form feed and "rac", "\beta" into a
+// backspace and "eta". Puts those LaTeX commands back; tabs, carriage returns
+// and newlines only count inside $...$, where they are never meant literally.
+export const restoreMathEscapes = (text: string): string =>
+  text
+    .replace(/\f/g, '\\f')
+    .replace(/\x08/g, '\\b')
+    .replace(/\$[^$]+\$/g, math => math
+      .replace(/\t(?=[a-z])/g, '\\t')
+      .replace(/\r(?=[a-z])/g, '\\r')
+      .replace(/\n(?=(?:e|eq|eg|u|abla|ot|otin|i|leq|geq|ewline|mid|parallel|subseteq|earrow|warrow)\b)/g, '\\n'));
@@ -0,0 +1,29 @@
+import { SourceMaterial } from "../types";
+
+export const SOURCE_WEIGHTS: { value: number; label: string }[] = [
+  { value: 1, label: "Light" },
+  { value: 2, label: "Normal" },
+  { value: 4, label: "Heavy" },
+];
+
+export const DEFAULT_SOURCE_WEIGHT = 2;
+
+export const createSource = (label: string, text: string): SourceMaterial => ({
+  id: crypto.randomUUID(),
+  label,
+  text,
+  weight: DEFAULT_SOURCE_WEIGHT
+});
+
+// "week-3_slides.pptx" -> "week-3 slides"
+export const labelFromFileName = (fileName: string) => fileName.replace(/\.[^.]+$/, '').replace(/_+/g, ' ').trim() || fileName;
+
+// The whole bundle as one text. Each source starts with a heading so the
+// content chunker still keeps them apart.
+export const bundleText = (sources: SourceMaterial[]): string =>
+  sources.length === 1
+    ? sources[0].text
+    : sources.map(source => `# ${source.label}\n\n${source.text}`).join('\n\n');
+
+export const sourceWeights = (sources: SourceMaterial[]): Record<string, number> =>
+  Object.fromEntries(sources.map(source => [source.id, source.weight]));
@@ -0,0 +1,84 @@
+import { readFileSync } from "fs";
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { csvToText, htmlToText, odtToText, rtfToText, subtitlesToText } from "./text-formats";
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url));
+
+const odtContent = async () => {
+  const zip = await JSZip.loadAsync(fixture("sample.odt"));
+  return zip.file("content.xml")!.async("string");
+};
+
+describe("htmlToText", () => {
+  it("keeps headings, lists and tables and drops head, scripts and comments", () => {
+    expect(htmlToText(fixture("sample.html").toString("utf8"))).toBe([
+      "# Photosynthesis",
+      "",
+      "Plants turn light into chemical energy & release oxygen.",
+      "- Light reactions",
+      "  - Happen in the thylakoids",
+      "- Calvin cycle",
+      "1. Absorb light",
+      "2. Fix carbon",
+      "",
+      "| Input | Output |",
+      "| --- | --- |",
+      "| CO2 | Glucose |"
+    ].join("\n"));
+  });
+
+  it("drops XML declarations", () => {
+    expect(htmlToText('<?xml version="1.0"?><html><body><p>Text</p></body></html>')).toBe("Text");
+  });
+});
+
+describe("rtfToText", () => {
+  it("decodes escapes and skips metadata groups", () => {
+    expect(rtfToText(fixture("sample.rtf").toString("utf8"))).toBe([
+      "The cell is the basic unit of life.",
+      "Café {braces} and a backslash \\ stay.",
+      "Greek αlpha and an em dash—done."
+    ].join("\n"));
+  });
+});
+
+describe("csvToText", () => {
+  it("reads quoted fields and CRLF rows", () => {
+    expect(csvToText(fixture("sample.csv").toString("utf8"))).toBe([
+      "Term — Definition",
+      "Mitosis — Cell division that makes two identical cells",
+      "Meiosis — Division that makes gametes, with half the chromosomes",
+      'Quoted "term" — Has escaped quotes'
+    ].join("\n"));
+  });
+});
+
+describe("subtitlesToText", () => {
+  it("joins SRT cues and drops repeated lines", () => {
+    expect(subtitlesToText(fixture("sample.srt").toString("utf8"))).toBe("Today we look at the water cycle. Evaporation comes first.");
+  });
+
+  it("skips VTT notes, cue ids, settings and voice tags", () => {
+    expect(subtitlesToText(fixture("sample.vtt").toString("utf8"))).toBe("Rivers carry sediment & water. Deltas form at the mouth.");
+  });
+});
+
+describe("odtToText", () => {
+  it("keeps headings and lists and drops tracked changes", async () => {
+    expect(odtToText(await odtContent())).toBe([
+      "## Plate tectonics",
+      "",
+      "Plates move a few centimetres a year.",
+      "Code:    indented tabbed",
+      "next line",
+      "- Divergent",
+      "- Convergent",
+      "Fish & chips"
+    ].join("\n"));
+  });
+
+  it('expands text:c="N" to N spaces', () => {
+    expect(odtToText('<office:text><text:p>a<text:s text:c="3"/>b<text:s/>c</text:p></office:text>')).toBe("a   b c");
+  });
+});
@@ -0,0 +1,317 @@
+// Converters from markup and tabular formats to the plain text the generator
+// reads. They are regex-based because they run in the extraction worker, where
+// there is no DOMParser. Structure comes out as Markdown: headings become "#"
+// lines the content chunker can split on, lists "-" items and tables pipe tables.
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', shy: '',
+  ndash: '–', mdash: '—', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+  laquo: '«', raquo: '»', copy: '©', reg: '®', deg: '°', middot: '·', bull: '•', times: '×', divide: '÷'
+};
+
+export const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+// Collapses runs of spaces inside lines and more than one blank line between
+// paragraphs. Indentation in front of list markers is kept for nested lists.
+const tidy = (text: string): string =>
+  text
+    .split('\n')
+    .map(line => {
+      const indent = line.match(/^[ \t]+(?=(?:-|\d+\.) )/)?.[0].replace(/\t/g, '  ') || '';
+      return indent + line.replace(/[ \t ]+/g, ' ').trim();
+    })
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+// Markdown pipe table; the first row is the header
+export const markdownTable = (rows: string[][]): string => {
+  const width = Math.max(0, ...rows.map(row => row.length));
+  if (width === 0) return '';
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => (cells[i] || '').replace(/\|/g, '\\|')).join(' | ')} |`;
+  return [line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+};
+
+const PARAGRAPH_TAGS = /^(p|div|section|article|header|footer|aside|nav|blockquote|pre|dl|dt|dd|figure|figcaption|hr)$/;
+
+// Works for HTML, the XHTML chapters inside EPUBs and mammoth's DOCX output.
+// Headings, nested lists and tables come out as Markdown.
+export const htmlToText = (html: string): string => {
+  const source = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    // Doctype and XML declarations (EPUB chapters start with one)
+    .replace(/<!doctype\b[^>]*>|<\?[\s\S]*?\?>/gi, '')
+    .replace(/<(script|style|head|noscript|template|svg)\b[\s\S]*?<\/\1\s*>/gi, '');
+
+  let output = '';
+  const lists: { ordered: boolean; count: number }[] = [];
+  let table: string[][] | null = null;
+  let row: string[] | null = null;
+  let cell: string | null = null;
+
+  const write = (text: string) => {
+    if (cell !== null) cell += text;
+    else output += text;
+  };
+  // Block breaks; skipped right after a list marker so "<li><p>" stays on one line
+  const breakLine = (count: number) => {
+    if (cell !== null) cell += ' ';
+    else if (!/(^|\n) *(-|\d+\.) $/.test(output)) output += '\n'.repeat(count);
+  };
+
+  for (const [token, closing, name] of source.matchAll(/<(\/?)([a-z][a-z0-9]*)\b[^>]*>|[^<]+/gi)) {
+    if (!name) {
+      write(decodeEntities(token.replace(/\s+/g, ' ')));
+      continue;
+    }
+    const tag = name.toLowerCase();
+    const heading = tag.match(/^h([1-6])$/);
+
+    if (heading) {
+      breakLine(2);
+      if (!closing && cell === null) write(`${'#'.repeat(Number(heading[1]))} `);
+    } else if (tag === 'ul' || tag === 'ol') {
+      if (closing) lists.pop();
+      else lists.push({ ordered: tag === 'ol', count: 0 });
+      if (lists.length === 0) breakLine(2);
+    } else if (tag === 'li') {
+      const list = lists[lists.length - 1];
+      if (!closing) {
+        output = `${output.trimEnd()}\n${'  '.repeat(Math.max(lists.length - 1, 0))}${list?.ordered ? `${++list.count}.` : '-'} `;
+      }
+    } else if (tag === 'table') {
+      if (closing && table) {
+        output += `\n\n${markdownTable(table)}\n\n`;
+        table = null;
+      } else if (!closing) {
+        table = [];
+      }
+    } else if (tag === 'tr') {
+      if (closing && row) table?.push(row);
+      row = closing ? null : [];
+    } else if (tag === 'td' || tag === 'th') {
+      if (closing && cell !== null) row?.push(cell.replace(/\s+/g, ' ').trim());
+      cell = closing ? null : '';
+    } else if (tag === 'br') {
+      if (cell !== null) cell += ' ';
+      else output += '\n';
+    } else if (PARAGRAPH_TAGS.test(tag)) {
+      breakLine(2);
+    }
+  }
+  return tidy(output);
+};
+
+// Stands in for spaces that tidy must not collapse
+const KEPT_SPACE = '\uE000';
+
+// Indentation around these is layout of the XML, not text
+const ODT_LAYOUT_WHITESPACE = /(<\/?(?:text:(?:p|h|list|list-item|section)|office:text)\b[^>]*>)\s+(?=<)|\s+(?=<\/?(?:text:(?:p|h|list|list-item|section)|office:text)\b)/g;
+
+// OpenDocument text (content.xml of an .odt). Whitespace in the XML collapses
+// like in HTML; <text:s text:c="N"/> stands for N spaces that stay.
+export const odtToText = (xml: string): string => {
+  const body = xml.match(/<office:text\b[^>]*>([\s\S]*?)<\/office:text>/)?.[1] ?? xml;
+  const text = body
+    .replace(/<text:tracked-changes\b[\s\S]*?<\/text:tracked-changes>/g, '')
+    .replace(ODT_LAYOUT_WHITESPACE, '$1')
+    .replace(/<text:s(?:\s+text:c="(\d+)")?\s*\/>/g, (_, count?: string) => KEPT_SPACE.repeat(Number(count) || 1))
+    .replace(/<text:(tab|line-break)\b[^>]*\/>/g, (_, tag: string) => tag === 'tab' ? '\t' : '\n')
+    .replace(/<text:h\b([^>]*)>([\s\S]*?)<\/text:h>/g, (_, attributes: string, inner: string) => {
+      const level = Number(attributes.match(/text:outline-level="(\d+)"/)?.[1]) || 1;
+      return `\n\n${'#'.repeat(Math.min(level, 6))} ${inner.replace(/<[^>]+>/g, '').trim()}\n\n`;
+    })
+    .replace(/<text:list-item\b[^>]*>/g, '- ')
+    .replace(/<\/text:p>/g, '\n')
+    .replace(/<[^>]+>/g, '');
+  return tidy(decodeEntities(text)).replaceAll(KEPT_SPACE, ' ');
+};
+
+// Destinations whose content is metadata rather than document text
+const RTF_SKIPPED_GROUPS = /^(fonttbl|colortbl|stylesheet|info|pict|header|footer|headerl|headerr|footerl|footerr|listtable|listoverridetable|rsidtbl|generator|xmlnstbl|themedata|colorschememapping|datastore|latentstyles)$/;
+
+export const rtfToText = (rtf: string): string => {
+  let output = '';
+  let depth = 0;
+  let skipDepth = 0; // group depth at which skipping started; 0 when not skipping
+  let unicodeSkip = 1;
+  let pendingSkip = 0;
+
+  for (let i = 0; i < rtf.length; i++) {
+    const char = rtf[i];
+
+    if (char === '{') {
+      depth++;
+      continue;
+    }
+    if (char === '}') {
+      if (skipDepth === depth) skipDepth = 0;
+      depth--;
+      continue;
+    }
+    if (char === '\\') {
+      const next = rtf[i + 1];
+      // Escaped literal characters
+      if (next === '\\' || next === '{' || next === '}') {
+        if (!skipDepth) output += next;
+        i++;
+        continue;
+      }
+      // \'hh is a byte in the document code page; Windows-1252 matches Latin-1 closely enough here
+      if (next === "'") {
+        if (!skipDepth) {
+          if (pendingSkip > 0) pendingSkip--;
+          else output += String.fromCharCode(parseInt(rtf.substr(i + 2, 2), 16));
+        }
+        i += 3;
+        continue;
+      }
+      // \* marks an optional destination that readers may ignore
+      if (next === '*') {
+        if (!skipDepth) skipDepth = depth;
+        i++;
+        continue;
+      }
+      const match = rtf.slice(i + 1).match(/^([a-z]+)(-?\d+)? ?/i);
+      if (!match) {
+        i++;
+        continue;
+      }
+      const [whole, word, param] = match;
+      i += whole.length;
+      if (skipDepth) continue;
+
+      if (RTF_SKIPPED_GROUPS.test(word)) skipDepth = depth;
+      else if (word === 'par' || word === 'line' || word === 'sect' || word === 'page') output += '\n';
+      else if (word === 'tab' || word === 'cell') output += '\t';
+      else if (word === 'row') output += '\n';
+      else if (word === 'uc') unicodeSkip = Number(param) || 0;
+      else if (word === 'u') {
+        const code = Number(param);
+        output += String.fromCharCode(code < 0 ? code + 65536 : code);
+        pendingSkip = unicodeSkip;
+      }
+      else if (word === 'emdash') output += '—';
+      else if (word === 'endash') output += '–';
+      else if (word === 'bullet') output += '•';
+      else if (word === 'lquote') output += '‘';
+      else if (word === 'rquote') output += '’';
+      else if (word === 'ldblquote') output += '“';
+      else if (word === 'rdblquote') output += '”';
+      continue;
+    }
+    if (char === '\r' || char === '\n' || skipDepth) continue;
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      continue;
+    }
+    output += char;
+  }
+  return tidy(output);
+};
+
+// RFC 4180 style: quoted fields may contain delimiters, quotes ("") and line breaks
+export const parseCsv = (csv: string): string[][] => {
+  const text = csv.replace(/^﻿/, '');
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(Boolean));
+};
+
+// Two-column sheets are usually term/definition lists; wider ones are written
+// out as "Header: value" records so every cell keeps its meaning.
+export const csvToText = (csv: string): string => {
+  const rows = parseCsv(csv);
+  if (rows.length === 0) return '';
+
+  const width = Math.max(...rows.map(r => r.length));
+  if (width <= 2) {
+    return rows.map(([term, definition]) => definition ? `${term} — ${definition}` : term).join('\n');
+  }
+
+  const [header, ...records] = rows;
+  const columns = header.map((name, i) => name || `Column ${i + 1}`);
+  return records
+    .map(record => record
+      .map((value, i) => value ? `${columns[i] || `Column ${i + 1}`}: ${value}` : '')
+      .filter(Boolean)
+      .join('; '))
+    .filter(Boolean)
+    .join('\n');
+};
+
+const CUE_TIMING = /^(\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{3}\s*-->/;
+
+// SRT and WebVTT transcripts: keeps the spoken text, drops numbering, timings,
+// styling and speaker tags, and merges lines repeated across rolling captions.
+export const subtitlesToText = (subtitles: string): string => {
+  const blocks = subtitles.replace(/^﻿/, '').replace(/\r/g, '').split(/\n\s*\n/);
+  const lines: string[] = [];
+
+  for (const block of blocks) {
+    const blockLines = block.split('\n').map(line => line.trim()).filter(Boolean);
+    if (blockLines.length === 0) continue;
+    if (/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(blockLines[0])) continue;
+
+    const timing = blockLines.findIndex(line => CUE_TIMING.test(line));
+    if (timing === -1) continue;
+
+    for (const line of blockLines.slice(timing + 1)) {
+      const text = decodeEntities(line.replace(/<v\s+([^>]+)>/g, '').replace(/<[^>]+>/g, '').replace(/\{\\[^}]*\}/g, '')).trim();
+      if (text && text !== lines[lines.length - 1]) lines.push(text);
+    }
+  }
+
+  // Cues break mid-sentence; start a new paragraph only after a sentence ends
+  return lines.reduce((text, line) => {
+    if (!text) return line;
+    return /[.!?…]["”’)]?$/.test(text) && /^[A-Z“"(\-]/.test(line) && text.length - text.lastIndexOf('\n') > 400
+      ? `${text}\n\n${line}`
+      : `${text} ${line}`;
+  }, '');
+};
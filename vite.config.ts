@@ -10,9 +10,18 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
       },
       plugins: [react()],
+      // The extraction worker is created as a module worker
+      worker: {
+        format: 'es',
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.SESSION_URL': JSON.stringify(env.SESSION_URL || ''),
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER || ''),
+        'process.env.LLM_BASE_URL': JSON.stringify(env.LLM_BASE_URL || ''),
+        'process.env.LLM_MODEL': JSON.stringify(env.LLM_MODEL || ''),
+        'process.env.LLM_API_KEY': JSON.stringify(env.LLM_API_KEY || '')
       },
       resolve: {
         alias: {